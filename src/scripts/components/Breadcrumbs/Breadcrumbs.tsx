@@ -0,0 +1,228 @@
+/**
+ * Breadcrumbs — Trilha de navegação para as zonas do HeaderBar.
+ *
+ * @description
+ * Exibe o caminho até a página atual. Migalhas intermediárias que não
+ * cabem na largura disponível são recolhidas em um `MenuX` (reticências),
+ * preservando sempre a primeira e a última.
+ *
+ * @structure
+ * ```
+ * [Breadcrumbs] (nav)
+ *  └── [ol]
+ *       ├── [li > a] (primeira migalha)
+ *       ├── (li > MenuX)  // migalhas recolhidas
+ *       ├── (li > a*)     // migalhas visíveis
+ *       └── [li > a|span aria-current="page"] (última migalha)
+ * ```
+ *
+ * @integration
+ * - Pode ser colocado em qualquer zona do `HeaderBar`:
+ *   • como JSX (`<Breadcrumbs crumbs={...} />`)
+ *   • como descritor (`{ crumbs: [...] }`)
+ * - Ícones seguem o provider do `PageZoneScope` (ver `IconProvider`).
+ *
+ * @behavior
+ * - Prioridades:
+ *   1. Acessibilidade (aria-label quando aplicável)
+ *   2. Consistência visual (estados :hover, :active , ..., via CSS)
+ *   3. Performance (zero JS para estado/animações/transições)
+ * - Sem JS: recolhe as migalhas que excedem `maxItems`.
+ * - Com JS: `ResizeObserver` recolhe mais migalhas enquanto houver overflow.
+ * - A última migalha recebe `aria-current="page"`.
+ *
+ * @props
+ * - `crumbs`: lista de migalhas (`caption`/`label`, `icon`, `href`).
+ * - `maxItems`: máximo de migalhas visíveis antes de recolher (padrão 4, mínimo 2).
+ * - `ariaLabel`: rótulo do landmark (padrão "Breadcrumb").
+ * - `escopo`: namespace de classes/data-attributes.
+ * - `className`: classes adicionais.
+ *
+ * @style
+ * - Arquitetura CSS:
+ *   • DaisyUI (`breadcrumbs`) + Tailwind Merge + clsx
+ *   • Wrapper: `crumbs-jcem`.
+ *   • Escopo: classes `crumbs-jcem-{escopo}`.
+ * - Overflow: Nunca usa scrollbar → recolhe em MenuX.
+ *
+ * @development
+ * - Boas práticas:
+ *   • Mensagens de log/warn/error via Logger
+ *   • Manutenção git-friendly (evitar breaking changes)
+ *   • Comentário de uma única linha preferíveis, exceto quando para jsDoc
+ *
+ * @dependencies
+ * - MenuX
+ * - Preact + Vite (core)
+ * - tailwind-merge + clsx
+ *
+ * @see {@link HeaderBar}
+ * @see {@link MenuX}
+ */
+import { JSX } from 'preact';
+import {
+	useEffect,
+	useLayoutEffect,
+	useRef,
+	useState,
+} from 'preact/hooks';
+import { twMerge } from 'tailwind-merge';
+import {
+	getCaption,
+	resolveClassName,
+	TCaption,
+	TItemX,
+} from '@mod/jcemTS/src/ts/common/ui';
+import { TIcon, useIcon } from '../IconProvider/IconProvider';
+import { MenuX } from '../MenuX/MenuX';
+import { Button } from '../NavIcon/NavIcon';
+import { usePageZoneScope } from '../PageZone/PageZoneScope';
+import './Breadcrumbs.scss';
+
+/** Migalha */
+export type TCrumb = TCaption & {
+	icon?: TIcon;
+	href?: string;
+};
+
+/** Props do Breadcrumbs */
+export interface IBreadcrumbs
+	extends Omit<JSX.HTMLAttributes<HTMLElement>, 'className'> {
+	crumbs: TCrumb[];
+	maxItems?: number;
+	ariaLabel?: string;
+	escopo?: string;
+	className?: string | (() => string);
+}
+
+/** 🍞 Componente Breadcrumbs */
+export function Breadcrumbs({
+	crumbs = [],
+	maxItems = 4,
+	ariaLabel = 'Breadcrumb',
+	escopo = 'crumbs',
+	className,
+	...props
+}: IBreadcrumbs) {
+	const { logger } = usePageZoneScope();
+	const icons = useIcon();
+	const nav = useRef<HTMLElement>(null);
+	const list = useRef<HTMLOListElement>(null);
+
+	/** Migalhas intermediárias recolhíveis (primeira e última são fixas) */
+	const middle = Math.max(crumbs.length - 2, 0);
+	const base = Math.min(
+		Math.max(crumbs.length - Math.max(maxItems, 2), 0),
+		middle,
+	);
+	const [hidden, setHidden] = useState(base);
+
+	/** 📏 Recolhe mais uma migalha enquanto houver overflow */
+	useLayoutEffect(() => {
+		if (!nav.current || !list.current) return;
+		if (
+			hidden < middle &&
+			list.current.scrollWidth > nav.current.clientWidth
+		) {
+			setHidden(hidden + 1);
+		}
+	}, [hidden, middle]);
+
+	/** 🔁 Recalcula a partir do limite estático quando migalhas ou largura mudam */
+	useEffect(() => {
+		setHidden(base);
+		if (!nav.current || typeof ResizeObserver === 'undefined') return;
+		let width = nav.current.clientWidth;
+		const observer = new ResizeObserver(() => {
+			const next = nav.current?.clientWidth ?? width;
+			if (next === width) return;
+			width = next;
+			setHidden(base);
+		});
+		observer.observe(nav.current);
+		return () => observer.disconnect();
+	}, [base]);
+
+	if (!crumbs?.length) {
+		logger.warn(`[Breadcrumbs] (${escopo}) criado sem migalhas.`);
+		return null;
+	}
+
+	const renderIcon = (icon: TCrumb['icon']) => {
+		if (!icon) return null;
+		return icons(icon, 'h-3.5 w-3.5');
+	};
+
+	const renderCrumb = (crumb: TCrumb, current: boolean) => {
+		const caption = getCaption(crumb.caption, crumb.label);
+		const content = (
+			<>
+				{renderIcon(crumb.icon)}
+				{caption && <span class="truncate">{caption}</span>}
+			</>
+		);
+
+		return crumb.href ?
+				<a
+					href={crumb.href}
+					aria-current={current ? 'page' : undefined}
+				>
+					{content}
+				</a>
+			:	<span aria-current={current ? 'page' : undefined}>
+					{content}
+				</span>;
+	};
+
+	/** Migalhas recolhidas → itens do MenuX */
+	const collapsed = crumbs.slice(1, 1 + hidden);
+	const menuItens: TItemX[] = collapsed.map((crumb) =>
+		Button({
+			caption: getCaption(crumb.caption, crumb.label),
+			icon: crumb.icon,
+			center: false,
+			href: crumb.href,
+		}),
+	);
+
+	const last = crumbs.length - 1;
+
+	return (
+		<nav
+			{...props}
+			ref={nav}
+			aria-label={ariaLabel}
+			data-collapsed={hidden}
+			className={twMerge(
+				'breadcrumbs crumbs-jcem min-w-0 overflow-visible py-0',
+				`crumbs-jcem-${escopo}`,
+				resolveClassName(className),
+			)}
+		>
+			<ol ref={list} className="flex-nowrap whitespace-nowrap">
+				<li>{renderCrumb(crumbs[0], last === 0)}</li>
+
+				{hidden > 0 && (
+					<li>
+						<MenuX
+							escopo={`${escopo}-more`}
+							icon="fas ellipsis"
+							ariaLabel={`Mostrar ${hidden} níveis ocultos`}
+							compact={true}
+							size="xs"
+							itens={menuItens}
+						/>
+					</li>
+				)}
+
+				{crumbs.slice(1 + hidden).map((crumb, i) => (
+					<li key={1 + hidden + i}>
+						{renderCrumb(crumb, 1 + hidden + i === last)}
+					</li>
+				))}
+			</ol>
+		</nav>
+	);
+}
+
+Breadcrumbs.displayName = 'Breadcrumbs';
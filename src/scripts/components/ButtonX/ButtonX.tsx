@@ -51,14 +51,32 @@
  * - lg: 1024px+
  *
  * @behavior
+ * - Elemento renderizado (`as`), por padrão inferido:
+ *   • `button` (padrão): ações; aceita `type` (padrão "button"), `disabled` e `form`
+ *   • `a`: navegação (`href`, `target`, `rel`); desabilitado → `aria-disabled`, sem `href`
+ *   • `label`: apenas com `htmlFor`, para os toggles CSS-only (MenuX, NavIcon, NavToggle)
+ * - Rota (`href`/`route` + `match`): lida pelo `NavIcon`, que marca o item ativo
+ *   (`aria-current="page"` + `btn-active`); não é repassada ao DOM.
+ * - Estados (via data-attributes, estilizados em `ButtonX.scss`):
+ *   • `disabled` → `data-disabled` (+ `disabled` nativo em button, `aria-disabled` em a/label)
+ *   • `loading` → spinner no lugar do ícone esquerdo, `aria-busy` e `data-loading`
+ *   • Ambos bloqueiam a ativação (clique e teclado)
+ * - Toggle (`pressed` / `defaultPressed` / `onPressedChange`):
+ *   • Renderiza checkbox oculto + `label` (`role="button"`, `aria-pressed`, `data-pressed`)
+ *   • Sem JS: o checkbox alterna o estado e o CSS troca ícone/legenda
+ *   • `pressedIcon` / `pressedCaption`: ícone/legenda do estado pressionado
+ *   • Enter/Espaço alternam (label não é ativado por teclado nativamente)
+ * - Badge (`badge`): contagem (número/texto; acima de 99 → "99+"; 0 oculta) ou ponto (`true`)
+ *   no canto do ícone; permanece visível com o NavIcon recolhido (apenas ícones).
  * - Prioridades:
  *   1. Acessibilidade (aria-label obrigatório sem caption)
  *   2. Consistência visual (estados :hover, :active via CSS)
  *   3. Performance (zero JS para estado/animações/transições)
  * - Tratamento de ícones:
- *   • Aceita FontAwesome como string ("fas icon-name") ou IconProp
- *   • Normalização automática de formatos e icones
- *   • Fallback para ícone padrão em erros
+ *   • Resolvidos pelo provider do `PageZoneScope` (`icons`, ver `IconProvider`):
+ *     FontAwesome ("fas icon-name"/IconProp), sprite, emoji/texto ou componente próprio
+ *   • `icon` aceita um ícone ou `{ left, right }`
+ *   • Fallback: providers herdados → placeholder + warning via Logger
  *
  * @style
  * - Arquitetura CSS:
@@ -73,7 +91,7 @@
  * - Estados:
  *   • Controlados via data-attributes e pseudo-classes
  *   • Transições CSS-only
- * - Font: fontawesome, incluindo brands, regular e solids; tranpilação: apenas o realmente usado;
+ * - Font: definida pelo provider de ícones do escopo (sem provider: emojis e glifos neutros; FontAwesome opt-in, apenas o realmente usado);
  *
  * @development
  * - Boas práticas:
@@ -86,7 +104,7 @@
  *
  * @dependencies
  *   • Preact + Vite (core)
- *   • @fortawesome/react-fontawesome (ícones)
+ *   • IconProvider (ícones; FontAwesome opcional)
  *   • tailwind-merge + tailwind-variants (estilos) + clsx
  *   • DaisyUI
  *
@@ -94,102 +112,50 @@
  */
 
 import { JSX } from 'preact';
-import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import {
-	IconProp,
-	IconName,
-	IconPrefix,
-} from '@fortawesome/fontawesome-svg-core';
-import { tv, type VariantProps } from 'tailwind-variants';
+import { type VariantProps } from 'tailwind-variants';
+import { buttonVariants, iconSizeMap } from './ButtonXVariants';
 import { twMerge } from 'tailwind-merge';
-import Logger from '@mod/jcemTS/src/ts/utils/logger';
+import { useRef } from 'preact/hooks';
+import { guid } from '@mod/jcemTS/src/ts/common/generic';
+import { useControllable } from '@ts/hooks/useControllable';
+import './ButtonX.scss';
 import {
 	getCaption,
 	resolveClassName,
 	TCaption,
 } from '@mod/jcemTS/src/ts/common/ui';
-import { library } from '@fortawesome/fontawesome-svg-core';
-import { fas } from '@fortawesome/free-solid-svg-icons';
-import { far } from '@fortawesome/free-regular-svg-icons';
-import { fab } from '@fortawesome/free-brands-svg-icons';
-import { noEmpty } from '@mod/jcemTS/src/ts/common/logicos';
+import { isTrue } from '@mod/jcemTS/src/ts/common/logicos';
+import {
+	scopedId,
+	usePageZoneScope,
+} from '../PageZone/PageZoneScope';
+import { TIcon, useIcon } from '../IconProvider/IconProvider';
+import type { IRouteItem } from '@ts/hooks/useLocation';
 
 /** Tipagem para ícones lado esquerdo e direito */
 export type TBTBIcon = {
-	left?: IconProp;
-	right?: IconProp;
+	left?: TIcon;
+	right?: TIcon;
 };
 
-/** Variantes visuais usando Tailwind Variants */
-const buttonVariants = tv({
-	base: [
-		'btn',
-		'btn-accent',
-		'cursor-pointer',
-		'shadow-none hover:shadow-none',
-		'rounded-lg',
-		'btb-jcem',
-	],
-	variants: {
-		size: {
-			xs: 'btn-xs w-72',
-			sm: 'btn-sm w-72',
-			md: 'btn-md w-72',
-			lg: 'btn-lg w-72',
-		},
-		compact: {
-			true: 'w-auto',
-		},
-		center: {
-			true: 'btb-jcem-center',
-		},
-		hasLeftIcon: {
-			true: 'btb-jcem-licon',
-		},
-		hasRightIcon: {
-			true: 'btb-jcem-ricon',
-		},
-		hasCaption: {
-			true: 'btb-jcem-caption',
-		},
-	},
-	defaultVariants: {
-		size: 'md',
-		center: true,
-	},
-	compoundVariants: [
-		{
-			hasLeftIcon: true,
-			hasCaption: false,
-			hasRightIcon: false,
-			center: true,
-			class: 'mx-auto',
-		},
-		{
-			hasLeftIcon: true,
-			hasCaption: true,
-			center: false,
-			class: 'mr-2 flex-shrink-0',
-		},
-		{
-			hasRightIcon: true,
-			class: 'ml-auto hidden sm:flex flex-shrink-0',
-		},
-		{
-			hasCaption: true,
-			hasRightIcon: true,
-			class: 'hidden xs:inline',
-		},
-	],
-});
-
 /** Props do ButtonX */
 export type TButtonX = Omit<
-	JSX.HTMLAttributes<HTMLLabelElement>,
+	JSX.HTMLAttributes<HTMLElement>,
 	'className'
 > &
 	VariantProps<typeof buttonVariants> & {
-		icon?: string | IconProp | TBTBIcon;
+		as?: 'button' | 'a' | 'label';
+		loading?: boolean;
+		badge?: number | string | boolean;
+		badgeLabel?: string;
+		pressed?: boolean;
+		defaultPressed?: boolean;
+		onPressedChange?: (pressed: boolean) => void;
+		pressedIcon?: TIcon | TBTBIcon;
+		pressedCaption?: string;
+		route?: IRouteItem['route'];
+		match?: IRouteItem['match'];
+		icon?: TIcon | TBTBIcon;
 		ariaLabel?: string;
 		htmlFor?: string;
 		escopo?: string;
@@ -203,26 +169,57 @@ export function ButtonX({
 	icon,
 	ariaLabel,
 	htmlFor,
+	href,
+	as = htmlFor ? 'label'
+	: href ? 'a'
+	: 'button',
 	escopo,
 	center = true,
 	compact = false,
 	size = 'md',
+	loading = false,
+	badge,
+	badgeLabel,
+	pressed,
+	defaultPressed,
+	onPressedChange,
+	pressedIcon,
+	pressedCaption,
 	className,
 	...props
 }: TButtonX) {
 	caption = getCaption(caption, label);
+	// Rota é lida pelo NavIcon; não vai ao DOM
+	delete props.route;
+	delete props.match;
+	const scope = usePageZoneScope();
+	const { logger } = scope;
+	const icons = useIcon();
+
+	/** 🔘 Toggle: estado controlado ou não, refletido no checkbox oculto */
+	const toggle =
+		pressed !== undefined ||
+		defaultPressed !== undefined ||
+		!!onPressedChange;
+	const [isPressed, setPressed] = useControllable(
+		pressed,
+		!!defaultPressed,
+		onPressedChange,
+	);
+	const toggleId = useRef(
+		`${props.id ?? scopedId(scope, `btb-${guid(8)}`)}-pressed`,
+	).current;
+	if (toggle) {
+		as = 'label';
+		htmlFor = toggleId;
+	}
 
 	/** Tamanho de ícone por variante de tamanho */
-	const iconSizeClass = {
-		xs: 'h-3 w-3',
-		sm: 'h-3.5 w-3.5',
-		md: 'h-4 w-4',
-		lg: 'h-5 w-5',
-	}[size];
+	const iconSizeClass = iconSizeMap[size];
 
 	/** Normalização de qualquer formato de entrada de ícone */
 	const normalizeIcon = (
-		icon: string | IconProp | TBTBIcon | undefined,
+		icon: TIcon | TBTBIcon | undefined,
 	): TBTBIcon => {
 		if (!icon) return {};
 
@@ -231,36 +228,13 @@ export function ButtonX({
 			typeof icon === 'object' &&
 			('left' in icon || 'right' in icon)
 		) {
-			return {
-				left: icon.left ? ensureIconProp(icon.left) : undefined,
-				right: icon.right ? ensureIconProp(icon.right) : undefined,
-			};
+			const { left, right } = icon as TBTBIcon;
+			return { left, right };
 		}
 
-		return { left: ensureIconProp(icon, icon) };
+		return { left: icon as TIcon };
 	};
 
-	/** Garantia de IconProp válido */
-	function ensureIconProp(x: any, def?: any): IconProp {
-		def = typeof def !== undefined ? def : ['fas', 'question-circle'];
-
-		if (!x) {
-			Logger.warn('Ícone inválido fornecido.');
-			return def;
-		}
-
-		if (noEmpty(x, 'string')) {
-			const [prefix = 'fas', ...rest] = `${x}`.trim().split(/\s+/);
-			const iconName = rest.join('-').replace(/^fa-/, '');
-			if (iconName) {
-				return [prefix as IconPrefix, iconName as IconName];
-			}
-		}
-
-		Logger.warn(`Ícone string inválido: "${x}"`);
-		return def;
-	}
-
 	const icn = normalizeIcon(icon);
 	const has_licon = !!icn.left;
 	const has_ricon = !!icn.right && (has_licon || !!caption);
@@ -274,7 +248,7 @@ export function ButtonX({
 
 	/** Validação de acessibilidade */
 	if (!ariaLabel && !has_cap) {
-		Logger.warn(
+		logger.warn(
 			'[ButtonX] — Falta ariaLabel: é obrigatório quando caption está ausente.',
 		);
 	}
@@ -289,35 +263,168 @@ export function ButtonX({
 		hasCaption: has_cap,
 	});
 
+	/** Ícone via provider do escopo (ver `IconProvider`) */
+	const renderIcon = (i: TIcon) => icons(i, iconSizeClass);
+
 	const resolvedClass = twMerge(
 		baseClasses,
 		`btb-jcem-${escopo ?? 'btb'}`,
 		resolveClassName(className),
 	);
 
-	return (
-		<label
+	/** Atributos próprios de cada elemento */
+	const disabled = isTrue(props.disabled);
+	const blocked = disabled || loading;
+	const Tag = as;
+	const tagProps =
+		as === 'label' ?
+			{
+				htmlFor,
+				'aria-disabled': disabled || undefined,
+				disabled: undefined,
+			}
+		: as === 'a' ?
+			{
+				href: disabled ? undefined : href,
+				'aria-disabled': disabled || undefined,
+				tabIndex: disabled ? -1 : props.tabIndex,
+				disabled: undefined,
+			}
+		:	{ type: props.type ?? 'button' };
+
+	/** 🔔 Badge: ponto (`true`) ou contagem (zero/vazio não exibe) */
+	const hasBadge = badge === true || (!!badge && badge !== '0');
+	const dot = badge === true;
+	const count =
+		typeof badge === 'number' && badge > 99 ? '99+' : `${badge}`;
+	const badgeNode = hasBadge && (
+		<div
+			className="btb-jcem-badge"
+			data-badge={dot ? 'dot' : 'count'}
+		>
+			{!dot && <span aria-hidden="true">{count}</span>}
+			<span className="sr-only">
+				{badgeLabel ?? (dot ? 'novo' : count)}
+			</span>
+		</div>
+	);
+
+	/** Face do botão (ícones + legenda); no toggle, uma por estado via `data-when` */
+	const renderFace = (
+		face: TBTBIcon,
+		cap: string | undefined,
+		when?: 'on' | 'off',
+	) => {
+		const hasLeft = !!face.left;
+		const hasCap = !!cap?.trim();
+		const hasRight = !!face.right && (hasLeft || hasCap);
+		return (
+			<>
+				{/* Left Icon (spinner durante loading) + badge */}
+				{(hasLeft || loading) && (
+					<div
+						className={hasBadge ? 'relative' : undefined}
+						data-when={when}
+					>
+						{loading ?
+							<span
+								className={`loading loading-spinner ${iconSizeClass}`}
+								aria-hidden="true"
+							/>
+						:	renderIcon(face.left!)}
+						{badgeNode}
+					</div>
+				)}
+
+				{/* Caption */}
+				{hasCap && (
+					<span class="truncate" data-when={when}>
+						{cap}
+					</span>
+				)}
+
+				{/* Right Icon */}
+				{hasRight && (
+					<div data-when={when}>{renderIcon(face.right!)}</div>
+				)}
+			</>
+		);
+	};
+	const dual = toggle && (!!pressedIcon || !!pressedCaption);
+
+	if (as === 'label' && !htmlFor) {
+		logger.warn(
+			'[ButtonX] — `as="label"` sem `htmlFor`: use `button` para ações.',
+		);
+	}
+
+	/** ⌨️ Enter/Espaço alternam o toggle (após o `onKeyDown` do consumidor) */
+	const onToggleKeyDown: JSX.KeyboardEventHandler<HTMLElement> = (
+		e,
+	) => {
+		props.onKeyDown?.(e);
+		if (e.defaultPrevented) return;
+		if (e.key !== 'Enter' && e.key !== ' ') return;
+		e.preventDefault();
+		e.stopPropagation();
+		e.currentTarget.click();
+	};
+
+	const button = (
+		<Tag
 			{...props}
+			{...tagProps}
+			{...(toggle && {
+				role: 'button',
+				tabIndex: props.tabIndex ?? 0,
+				'aria-pressed': isPressed,
+				'data-pressed': isPressed || undefined,
+				onKeyDown: onToggleKeyDown,
+			})}
+			onClick={
+				blocked ? (e: Event) => e.preventDefault() : props.onClick
+			}
 			aria-label={ariaLabel}
-			htmlFor={htmlFor}
-			className={resolvedClass}
-		>
-			{/* Left Icon */}
-			{has_licon && (
-				<div>
-					<FontAwesomeIcon icon={icn.left!} class={iconSizeClass} />
-				</div>
+			aria-busy={loading || undefined}
+			data-disabled={disabled || undefined}
+			data-loading={loading || undefined}
+			className={twMerge(
+				resolvedClass,
+				hasBadge && !has_licon && 'relative',
 			)}
+		>
+			{!has_licon && !loading && badgeNode}
+			{dual ?
+				<>
+					{renderFace(icn, caption, 'off')}
+					{renderFace(
+						pressedIcon ? normalizeIcon(pressedIcon) : icn,
+						pressedCaption ?? caption,
+						'on',
+					)}
+				</>
+			:	renderFace(icn, caption)}
+		</Tag>
+	);
 
-			{/* Caption */}
-			{has_cap && <span class="truncate">{caption}</span>}
+	if (!toggle) return button;
 
-			{/* Right Icon */}
-			{has_ricon && (
-				<div>
-					<FontAwesomeIcon icon={icn.right!} class={iconSizeClass} />
-				</div>
-			)}
-		</label>
+	return (
+		<>
+			<input
+				type="checkbox"
+				id={toggleId}
+				className="hidden jcem-toggle-input"
+				checked={isPressed}
+				disabled={blocked}
+				onChange={(e) => {
+					const next = e.currentTarget.checked;
+					// Mantém o DOM fiel ao estado até o re-render (modo controlado)
+					e.currentTarget.checked = isPressed;
+					setPressed(next);
+				}}
+			/>
+			{button}
+		</>
 	);
 }
@@ -0,0 +1,82 @@
+/**
+ * ButtonXVariants — Variantes visuais do ButtonX.
+ *
+ * @description
+ * Classes do componente sem dependência de Preact: compartilhadas pelo
+ * componente e pelo renderizador vanilla (`@ts/vanilla`), garantindo a
+ * mesma saída de classes em ambos.
+ *
+ * @see {@link ButtonX}
+ */
+import { tv } from 'tailwind-variants';
+
+/** Variantes visuais usando Tailwind Variants */
+export const buttonVariants = tv({
+	base: [
+		'btn',
+		'btn-accent',
+		'cursor-pointer',
+		'shadow-none hover:shadow-none',
+		'rounded-lg',
+		'btb-jcem',
+	],
+	variants: {
+		size: {
+			xs: 'btn-xs w-72',
+			sm: 'btn-sm w-72',
+			md: 'btn-md w-72',
+			lg: 'btn-lg w-72',
+		},
+		compact: {
+			true: 'w-auto',
+		},
+		center: {
+			true: 'btb-jcem-center',
+		},
+		hasLeftIcon: {
+			true: 'btb-jcem-licon',
+		},
+		hasRightIcon: {
+			true: 'btb-jcem-ricon',
+		},
+		hasCaption: {
+			true: 'btb-jcem-caption',
+		},
+	},
+	defaultVariants: {
+		size: 'md',
+		center: true,
+	},
+	compoundVariants: [
+		{
+			hasLeftIcon: true,
+			hasCaption: false,
+			hasRightIcon: false,
+			center: true,
+			class: 'mx-auto',
+		},
+		{
+			hasLeftIcon: true,
+			hasCaption: true,
+			center: false,
+			class: 'mr-2 flex-shrink-0',
+		},
+		{
+			hasRightIcon: true,
+			class: 'ml-auto hidden sm:flex flex-shrink-0',
+		},
+		{
+			hasCaption: true,
+			hasRightIcon: true,
+			class: 'hidden xs:inline',
+		},
+	],
+});
+
+/** Tamanho de ícone por variante de tamanho */
+export const iconSizeMap = {
+	xs: 'h-3 w-3',
+	sm: 'h-3.5 w-3.5',
+	md: 'h-4 w-4',
+	lg: 'h-5 w-5',
+};
@@ -27,9 +27,26 @@
  * - Se 2 Nav → content centralizado entre eles
  * - Altura mínima: sempre preenche até a base da janela visível
  * - NavIcon: sempre ocupa 100% da altura disponível do conteúdo
+ * - Expansão por lado (`PageZoneNav.expansion`):
+ *   • `push`: NavIcon no fluxo, empurra o conteúdo (padrão)
+ *   • `overlay`: trilho recolhido mantém a largura no fluxo; expandido flutua
+ *     sobre o ContentWrapper com transparência e backdrop
+ * - Overlay:
+ *   • Backdrop é `label[for]` do checkbox do NavIcon → fecha sem JS
+ *   • Com JS: Escape fecha, foco vai ao painel ao abrir e retorna ao acionador ao fechar
+ * - Gaveta off-canvas (`PageZoneNav.drawer`, abaixo de `drawerBelow`):
+ *   • Navegações saem do fluxo e deslizam sobre a página ao abrir
+ *   • Estado CSS-first por `input:checkbox` + `label[for]` (botão e backdrop)
+ *   • Com JS: Escape, foco, swipe a partir da borda para abrir e em direção à borda para fechar
+ *   • Com adaptador de estado (`PageZoneNav.dialog`): diálogo modal da máquina
+ *     (foco preso, Escape e retorno do foco); o swipe é mantido
  *
  * @style
  * - Wrapper: `enclousure-jcem`
+ * - Slot overlay: `enclousure-jcem-slot` + `enclousure-jcem-backdrop`
+ * - Largura do trilho recolhido: `--enclosure-rail-width` (padrão 4rem)
+ * - Gaveta: `enclousure-jcem-drawer` + `enclousure-jcem-drawer-backdrop`;
+ *   largura `--enclosure-drawer-width` (padrão min(20rem, 85vw))
  * - Arquitetura CSS:
  *   • DaisyUI + Tailwind Variants + Tailwind Merge + clsx
  *   • Totalmente responsivo
@@ -54,6 +71,15 @@
  * - tailwind-variants + tailwind-merge + clsx
  */
 import { ComponentChildren } from 'preact';
+import { useEffect, useLayoutEffect, useRef } from 'preact/hooks';
+import {
+	drawerQuery,
+	IPageZoneNav,
+	IPageZoneNavSide,
+	TNavSide,
+	usePageZoneNav,
+} from '../PageZone/PageZoneNav';
+import './EnclosureContent.scss';
 
 export interface IEnclosureContent {
 	navLeft?: ComponentChildren;
@@ -61,21 +87,211 @@ export interface IEnclosureContent {
 	children: ComponentChildren;
 }
 
+/** Seletor de elementos focáveis do painel */
+const FOCUSABLE =
+	'a[href], button:not([disabled]), input:not([type="hidden"]):not(.hidden), select, textarea, [tabindex]:not([tabindex="-1"])';
+
+/** Distância (px) da borda que inicia o swipe e deslocamento mínimo */
+const SWIPE_EDGE = 24;
+const SWIPE_MIN = 60;
+
+/** ⌨️ Escape, foco inicial e retorno de foco de um painel flutuante */
+function usePanelFocus(
+	open: boolean,
+	panelId: string | undefined,
+	close: () => void,
+) {
+	const opener = useRef<HTMLElement | null>(null);
+	const mounted = useRef(false);
+
+	useEffect(() => {
+		if (!panelId) return;
+		const panel = document.getElementById(panelId);
+		// Aberto por padrão na montagem: não rouba o foco da página
+		const initial = !mounted.current;
+		mounted.current = true;
+
+		if (!open) {
+			const active = document.activeElement;
+			if (
+				opener.current &&
+				(!active ||
+					active === document.body ||
+					panel?.contains(active))
+			) {
+				opener.current.focus();
+			}
+			opener.current = null;
+			return;
+		}
+
+		if (!initial) {
+			opener.current = document.activeElement as HTMLElement | null;
+			(
+				panel?.querySelector<HTMLElement>(FOCUSABLE) ?? panel
+			)?.focus();
+		}
+
+		const onKeyDown = (e: KeyboardEvent) => {
+			if (e.key !== 'Escape') return;
+			e.stopPropagation();
+			close();
+		};
+		document.addEventListener('keydown', onKeyDown);
+		return () => document.removeEventListener('keydown', onKeyDown);
+	}, [open, panelId]);
+}
+
+/** 👆 Swipe: da borda abre a gaveta; em direção à borda fecha */
+function useDrawerSwipe(navs: IPageZoneNav) {
+	/** Navegações mais recentes, lidas no gesto (uma única inscrição por breakpoint) */
+	const latest = useRef(navs);
+	useLayoutEffect(() => {
+		latest.current = navs;
+	});
+	const below = navs.drawer?.below;
+
+	useEffect(() => {
+		if (!below) return;
+		const media = window.matchMedia(drawerQuery(below));
+		let start: { x: number; y: number } | null = null;
+
+		const onStart = (e: TouchEvent) => {
+			const t = e.touches[0];
+			start =
+				media.matches && t ? { x: t.clientX, y: t.clientY } : null;
+		};
+
+		const onEnd = (e: TouchEvent) => {
+			const t = e.changedTouches[0];
+			if (!start || !t) return;
+			const dx = t.clientX - start.x;
+			const dy = t.clientY - start.y;
+			const from = start.x;
+			start = null;
+
+			if (Math.abs(dx) < SWIPE_MIN || Math.abs(dx) < Math.abs(dy)) {
+				return;
+			}
+
+			const { left, right } = latest.current;
+			if (left?.drawerOpen && dx < 0)
+				return left.setDrawerOpen(false);
+			if (right?.drawerOpen && dx > 0) {
+				return right.setDrawerOpen(false);
+			}
+			if (left && dx > 0 && from <= SWIPE_EDGE) {
+				return left.setDrawerOpen(true);
+			}
+			if (right && dx < 0 && from >= window.innerWidth - SWIPE_EDGE) {
+				return right.setDrawerOpen(true);
+			}
+		};
+
+		document.addEventListener('touchstart', onStart, {
+			passive: true,
+		});
+		document.addEventListener('touchend', onEnd, { passive: true });
+		return () => {
+			document.removeEventListener('touchstart', onStart);
+			document.removeEventListener('touchend', onEnd);
+		};
+	}, [below]);
+}
+
+/** 🧭 Slot lateral: direto (push) ou trilho/gaveta com backdrop */
+function renderSide(
+	side: TNavSide,
+	node: ComponentChildren,
+	nav: IPageZoneNavSide | undefined,
+	drawer: boolean,
+) {
+	if (!node) return null;
+
+	const overlay = nav?.expansion === 'overlay';
+	if (!nav || (!overlay && !drawer)) return <>{node}</>;
+
+	return (
+		<div
+			className="enclousure-jcem-slot"
+			data-side={side}
+			data-expansion={nav.expansion}
+			data-expanded={String(nav.expanded)}
+		>
+			{drawer && (
+				<input
+					type="checkbox"
+					id={nav.drawerId}
+					className="hidden enclousure-jcem-drawer"
+					checked={nav.drawerOpen}
+					onChange={(e) => {
+						const next = e.currentTarget.checked;
+						// Mantém o DOM fiel ao estado até o re-render
+						e.currentTarget.checked = nav.drawerOpen;
+						nav.setDrawerOpen(next);
+					}}
+				/>
+			)}
+			{node}
+			{overlay && (
+				<label
+					htmlFor={nav.toggleId}
+					className="enclousure-jcem-backdrop"
+					aria-hidden="true"
+				/>
+			)}
+			{drawer && (
+				<label
+					{...nav.dialog?.backdrop}
+					htmlFor={nav.drawerId}
+					className="enclousure-jcem-drawer-backdrop"
+					aria-hidden="true"
+				/>
+			)}
+		</div>
+	);
+}
+
 export function EnclosureContent({
 	navLeft,
 	navRight,
 	children,
 }: IEnclosureContent) {
+	const navs = usePageZoneNav();
+	const { left, right, drawer } = navs;
+
+	const overlay = (nav?: IPageZoneNavSide) =>
+		nav?.expansion === 'overlay' ? nav.navId : undefined;
+	usePanelFocus(!!left?.expanded, overlay(left), () =>
+		left?.setExpanded(false),
+	);
+	usePanelFocus(!!right?.expanded, overlay(right), () =>
+		right?.setExpanded(false),
+	);
+	// Gaveta com adaptador: foco e Escape ficam com a máquina de diálogo
+	const drawerPanel = (nav?: IPageZoneNavSide) =>
+		drawer && !nav?.dialog ? nav?.navId : undefined;
+	usePanelFocus(!!left?.drawerOpen, drawerPanel(left), () =>
+		left?.setDrawerOpen(false),
+	);
+	usePanelFocus(!!right?.drawerOpen, drawerPanel(right), () =>
+		right?.setDrawerOpen(false),
+	);
+	useDrawerSwipe(navs);
+
 	return (
-		<section class="enclousure-jcem flex w-full flex-1 min-h-full gap-2">
+		<section
+			class="enclousure-jcem relative flex w-full flex-1 min-h-full gap-2"
+			data-drawer={drawer?.below}
+		>
 			{/* Nav Esquerda */}
-			{navLeft && <>{navLeft}</>}
+			{renderSide('left', navLeft, left, !!drawer)}
 
 			{/* Conteúdo */}
 			<div class="flex-grow">{children}</div>
 
 			{/* Nav Direita */}
-			{navRight && <> {navRight} </>}
+			{renderSide('right', navRight, right, !!drawer)}
 		</section>
 	);
 }
@@ -22,9 +22,13 @@
  * - Extende SectionWrapperBase
  *
  * @layout
- * - Modos:
- *   • Fixed: Fixa no rodapé (opcional)
- *   • Static: Fluxo normal no documento (padrão) mas força ficar alinhado ao bottom da janela visível quando conteúdo for insuficiente
+ * - Modos (`position`):
+ *   • `static`: Fluxo normal no documento (padrão) mas força ficar alinhado ao bottom da janela visível quando conteúdo for insuficiente
+ *   • `sticky`: Fluxo normal, preso ao bottom da viewport durante a rolagem
+ *   • `fixed`: Fixa no rodapé da viewport; espaçador reserva a altura no fluxo (nunca cobre conteúdo)
+ * - Tab bar (`tabbar`):
+ *   • Abaixo de 768px, o rodapé fixa no bottom e o `NavIcon` horizontal interno
+ *     vira a navegação principal (itens de largura igual, ícone sobre o rótulo)
  * - Largura:
  *   • Full (100%)
  *   • Container (centralizado, máx. 1280px)
@@ -46,6 +50,8 @@
  *   • Transições CSS-only
  *
  * @props
+ * - `position`: 'static' | 'sticky' | 'fixed' (default 'static')
+ * - `tabbar`: boolean (default false) → bottom tab bar em telas pequenas
  * - `shadow`: boolean (default true)
  * - `container`: boolean (default false) → ativa largura limitada
  * - `escopo`: string (namespace de dados e classes)
@@ -73,14 +79,27 @@
  * - Preact + Vite (core)
  * - tailwind-variants + tailwind-merge + clsx
  */
+import { useRef } from 'preact/hooks';
+import clsx from 'clsx';
 import {
 	SectionWrapperBase,
 	ISectionWrapperBase,
 } from '../SectionWrapperBase/SectionWrapperBase';
+import {
+	scopedId,
+	usePageZoneScope,
+} from '../PageZone/PageZoneScope';
+import { useReservedSpace } from '@ts/hooks/useReservedSpace';
+import { guid } from '@mod/jcemTS/src/ts/common/generic';
+import { positionMap } from './FooterZoneVariants';
+import './FooterZone.scss';
 
 /** Props do FooterZone */
 export interface IFooterZone
-	extends Omit<ISectionWrapperBase, 'as' | 'stack'> {}
+	extends Omit<ISectionWrapperBase, 'as' | 'stack'> {
+	position?: 'static' | 'sticky' | 'fixed';
+	tabbar?: boolean;
+}
 
 /** 🔥 FooterZone */
 export function FooterZone({
@@ -88,22 +107,48 @@ export function FooterZone({
 	shadow = true,
 	container = false,
 	debug = false,
+	position = 'static',
+	tabbar = false,
 	children,
 	...props
 }: IFooterZone) {
+	const scope = usePageZoneScope();
+	const id = useRef(
+		`${props.id ?? scopedId(scope, `fzone-${guid(8)}`)}`,
+	).current;
+	const spacer = useRef<HTMLDivElement>(null);
+	const reserve = position === 'fixed' || tabbar;
+
+	/** 📏 Espaço reservado para modos fora do fluxo */
+	useReservedSpace(id, spacer, 'fzone-spacer', reserve);
+
 	return (
-		<SectionWrapperBase
-			{...props}
-			escopo={escopo}
-			as="footer"
-			stack={true}
-			shadow={shadow}
-			container={container}
-			className="fzone-jcem"
-			debug={debug}
-		>
-			{children}
-		</SectionWrapperBase>
+		<>
+			{reserve && (
+				<div
+					ref={spacer}
+					aria-hidden="true"
+					className="fzone-jcem-spacer"
+					data-position={position}
+					data-tabbar={tabbar || undefined}
+				/>
+			)}
+			<SectionWrapperBase
+				{...props}
+				id={id}
+				escopo={escopo}
+				as="footer"
+				stack={true}
+				shadow={shadow}
+				container={container}
+				className={clsx('fzone-jcem', positionMap[position])}
+				data-position={position}
+				data-tabbar={tabbar || undefined}
+				debug={debug}
+			>
+				{children}
+			</SectionWrapperBase>
+		</>
 	);
 }
 
@@ -0,0 +1,17 @@
+/**
+ * FooterZoneVariants — Mapeamentos visuais do FooterZone.
+ *
+ * @description
+ * Classes do componente sem dependência de Preact: compartilhadas pelo
+ * componente e pelo renderizador vanilla (`@ts/vanilla`), garantindo a
+ * mesma saída de classes em ambos.
+ *
+ * @see {@link FooterZone}
+ */
+
+/** 🔧 Mapeamento de modos → Tailwind */
+export const positionMap = {
+	static: 'mt-auto',
+	sticky: 'sticky bottom-0 mt-auto',
+	fixed: 'fixed bottom-0 inset-x-0 z-40',
+} as const;
@@ -45,9 +45,13 @@
  *   • NavIcon
  *   • PageZone
  * - Pode ser usado como cabeçalho de páginas, módulos, dashboards, apps.
+ * - Em `PageZone` com `drawerBelow`, o primeiro HeaderBar recebe `NavToggle` (gaveta)
+ *   no início da zona esquerda e no fim da zona direita (`drawerToggles={false}` desativa).
  * - Opcionalmente, via parâmetro, pode fixar-se (empilhado) ao topo (styck) na mesma ordem de renderização.
+ *   (`sticky` ou `variant="sticky"`; o `HeaderZone` calcula o offset acumulado em `--hbar-offset`)
  * - Suporte a botões (`ButtonX`), menus (`MenuX`) e barras (`NavIcon`).
  * - Cada seções pode receber qualquer tipo de componente, inclusive puro HTML*
+ * - Breadcrumbs: como JSX (`<Breadcrumbs />`) ou descritor (`{ crumbs: [...] }`) em qualquer zona.
  *
  * @behavior
  * - Prioridades:
@@ -66,10 +70,15 @@
  *   • padding e gaps reduzidos
  * - Alinhamento do título (`titleAlign`):
  *   • left | center | right
+ *   • center usa grade `1fr auto 1fr`: o título fica centralizado independente das zonas laterais
  * - Classes:
  *   • Wrapper: `header-jcem-{escopo}`
  * - Responsivo e adaptável ao contexto.
+ * - Teclado: roving tabindex entre as zonas (←/→, Home/End, type-ahead); MenuX abre com ↓.
  * - Overflow: Nunca usa scrollbar → cria submenus ou colapsa.
+ *   • Com JS: `ResizeObserver` mede cada zona; ButtonX/MenuX de menor `priority`
+ *     migram para um MenuX "mais" gerado na própria zona (empate → o mais à direita)
+ *   • Sem JS: itens com `collapseBelow` (xs | sm | md | lg) migram via CSS abaixo do breakpoint
  * - Largura: 100% do espaço disponivel
  *
  * @style
@@ -85,12 +94,19 @@
  *   • Transições CSS-only
  *
  * @props
- * - `leftItems`: itens à esquerda (ButtonX | MenuX | NavIcon[])
- * - `rightItems`: itens à direita (ButtonX | MenuX | NavIcon[])
+ * - `leftItems`: itens à esquerda (ButtonX | MenuX | NavIcon[] | Breadcrumbs)
+ * - `rightItems`: itens à direita (ButtonX | MenuX | NavIcon[] | Breadcrumbs)
  * - `middleContent`: conteúdo customizado no centro (JSX.Element)
- * - `title`: texto do título central
+ * - `title`: título da barra (heading `h1`–`h6`)
+ * - `subtitle`: texto secundário abaixo do título
+ * - `logo`: URL da imagem (`logoAlt`, `logoHref`) ou JSX da marca
+ * - `titleAlign`: posição da marca (left: início da zona esquerda; center: centro real; right: fim da zona direita)
+ * - `headingLevel`: 1–6 (padrão: profundidade do PageZone + 1 → `h1` na raiz, `h2` no aninhado, ...)
  * - `variant`, `size`, `shadow`, `compact`: estilização
+ * - `sticky`: boolean → prende ao topo abaixo das HeaderBar `sticky` anteriores
  * - `escopo`: namespace de classes/data-attributes
+ * - Itens aceitam `priority` (número, padrão 0) e `collapseBelow` (fallback CSS)
+ * - `drawerToggles`: boolean (padrão true) → aceita os botões automáticos da gaveta
  * - `classPart`: string para personalização de classe
  * - `className`: classes adicionais
  *
@@ -118,6 +134,7 @@
  * - ButtonX
  * - MenuX
  * - NavIcon
+ * - Breadcrumbs
  * - Preact + Vite (core)
  * - ButtonX (botão principal)
  * - NavIcon (container dos itens)
@@ -127,10 +144,10 @@
  * @see {@link MenuX}
  * @see {@link NavIcon}
  */
-import { JSX } from 'preact';
+import { ComponentChild, JSX } from 'preact';
 import { TButtonX } from '../ButtonX/ButtonX';
 import { IMenuX } from '../MenuX/MenuX';
-import { INavIcon, NavIcon } from '../NavIcon/NavIcon';
+import { INavIcon, Menu, NavIcon } from '../NavIcon/NavIcon';
 import {
 	TUISizes,
 	TUIShadow,
@@ -139,44 +156,83 @@ import {
 } from '@mod/jcemTS/src/ts/common/ui';
 import clsx from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { usePageZoneScope } from '../PageZone/PageZoneScope';
+import {
+	DRAWER_BREAKPOINTS,
+	TDrawerBreakpoint,
+	usePageZoneNav,
+} from '../PageZone/PageZoneNav';
+import { NavToggle } from '../NavToggle/NavToggle';
+import {
+	Breadcrumbs,
+	IBreadcrumbs,
+} from '../Breadcrumbs/Breadcrumbs';
+import { guid } from '@mod/jcemTS/src/ts/common/generic';
+import {
+	useEffect,
+	useLayoutEffect,
+	useRef,
+	useState,
+} from 'preact/hooks';
+import { ownItems, useRovingFocus } from '@ts/hooks/useRovingFocus';
+import { shadowMap, sizeMap } from './HeaderBarVariants';
+import './HeaderBarOverflow.scss';
+
+/** 🔧 Prioridade de permanência na barra (menor migra primeiro para o "mais") */
+export type TBarPriority = {
+	priority?: number;
+	collapseBelow?: TDrawerBreakpoint;
+};
 
 /** 🔧 Tipagem dos itens aceitos */
-export type TBarItem = TButtonX | IMenuX | INavIcon;
+export type TBarItem = (TButtonX | IMenuX | INavIcon | IBreadcrumbs) &
+	TBarPriority;
+
+/** Ordem dos breakpoints (menor → maior) */
+const BREAKPOINT_ORDER = Object.keys(
+	DRAWER_BREAKPOINTS,
+) as TDrawerBreakpoint[];
 
 /** Props do HeaderBar */
 export interface IHeader
-	extends Omit<JSX.HTMLAttributes<HTMLElement>, 'size'> {
+	extends Omit<JSX.HTMLAttributes<HTMLElement>, 'size' | 'title'> {
 	classPart?: string;
+	title?: string | JSX.Element;
+	subtitle?: string | JSX.Element;
+	logo?: string | JSX.Element;
+	logoAlt?: string;
+	logoHref?: string;
+	headingLevel?: 1 | 2 | 3 | 4 | 5 | 6;
 	left?: (TBarItem | JSX.Element)[];
 	center?: (TBarItem | JSX.Element)[];
 	right?: (TBarItem | JSX.Element)[];
 	searchComponent?: JSX.Element;
 	titleAlign?: 'left' | 'center' | 'right';
 	variant?: 'normal' | 'sticky' | 'ghost' | 'bordered';
+	sticky?: boolean;
 	size?: TUISizes;
 	shadow?: TUIShadow;
 	compact?: boolean;
 	escopo?: string;
+	drawerToggles?: boolean;
 }
 
-/** 🔧 Mapeamento de tamanhos → Tailwind */
-const sizeMap = {
-	xs: 'text-xs',
-	sm: 'text-sm',
-	md: 'text-md',
-	lg: 'text-lg',
-	xl: 'text-xl',
-} as const;
+/** 🧠 Item migrável (ButtonX/MenuX) */
+const isNavItem = (item: TBarItem | JSX.Element) =>
+	'onClick' in item ||
+	'href' in item ||
+	'itens' in item ||
+	'kind' in item;
 
-/** 🔧 Mapeamento de sombras → Tailwind */
-const shadowMap = {
-	none: '',
-	sm: 'shadow-sm',
-	md: 'shadow-md',
-	lg: 'shadow-lg',
-	xl: 'shadow-xl',
-	'2xl': 'shadow-2xl',
-} as const;
+/** 📐 Largura ocupada pelos filhos da zona (ignora menus abertos fora do fluxo) */
+function usedWidth(zone: HTMLElement) {
+	const children = Array.from(zone.children) as HTMLElement[];
+	const gap = parseFloat(getComputedStyle(zone).columnGap) || 0;
+	return children.reduce(
+		(w, el, i) => w + el.scrollWidth + (i ? gap : 0),
+		0,
+	);
+}
 
 /** 🔥 Agrupa sequências de TItemX em NavIcon */
 function groupItems(
@@ -201,6 +257,8 @@ function groupItems(
 					)}
 					className="h-full"
 					escopo={`header-${zone}`}
+					overflow="none"
+					keyboard={false}
 				/>,
 			);
 			buffer = [];
@@ -208,9 +266,16 @@ function groupItems(
 	};
 
 	for (const item of items) {
-		const isNavItem = 'onClick' in item || 'itens' in item;
-		if (isNavItem) {
-			buffer.push(item as TItemX);
+		if ('crumbs' in item) {
+			flushBuffer();
+			result.push(
+				<Breadcrumbs escopo={`header-${zone}`} {...item} />,
+			);
+			continue;
+		}
+		if (isNavItem(item)) {
+			const { priority, collapseBelow, ...rest } = item as TBarItem;
+			buffer.push(rest as TItemX);
 		} else {
 			flushBuffer();
 			result.push(item as JSX.Element);
@@ -221,19 +286,133 @@ function groupItems(
 }
 
 /** 🔧 Renderização de cada zona */
-function renderZone(
-	items: (TBarItem | JSX.Element)[] | undefined,
-	zone: 'start' | 'center' | 'end',
-	compact: boolean,
-	escopo: string,
-	extra?: JSX.Element,
-) {
-	if ((!items || items.length === 0) && !extra) return null;
+function BarZone({
+	items = [],
+	zone,
+	compact,
+	escopo,
+	lead = [],
+	trail = [],
+	keep = false,
+}: {
+	items?: (TBarItem | JSX.Element)[];
+	zone: 'start' | 'center' | 'end';
+	compact: boolean;
+	escopo: string;
+	lead?: ComponentChild[];
+	trail?: ComponentChild[];
+	keep?: boolean;
+}) {
+	const ref = useRef<HTMLDivElement>(null);
+	const [measured, setMeasured] = useState(false);
+	const [collapsed, setCollapsed] = useState(0);
+	const [, setWidth] = useState(0);
+	/** Largura ocupada medida em cada nível de migração */
+	const needed = useRef<number[]>([]);
+
+	/** Candidatos à migração: menor prioridade primeiro; empate → mais à direita */
+	const candidates = items
+		.map((item, i) => ({ item: item as TBarItem, i }))
+		.filter(({ item }) => isNavItem(item))
+		.sort(
+			(a, b) =>
+				(a.item.priority ?? 0) - (b.item.priority ?? 0) || b.i - a.i,
+		);
+
+	/** 📏 Com JS: migra um item a mais com overflow; devolve um se a largura medida no nível anterior couber */
+	useLayoutEffect(() => {
+		const el = ref.current;
+		if (!measured || !el) return;
+		const used = usedWidth(el);
+		needed.current[collapsed] = used;
+		if (collapsed < candidates.length && used > el.clientWidth + 1) {
+			setCollapsed(collapsed + 1);
+		} else if (
+			collapsed > 0 &&
+			needed.current[collapsed - 1] <= el.clientWidth + 1
+		) {
+			setCollapsed(collapsed - 1);
+		}
+	});
+
+	/** 🔁 Ativa a medição e recalcula (sem reiniciar a migração) quando a largura muda */
+	useEffect(() => {
+		const el = ref.current;
+		setMeasured(true);
+		if (!el || typeof ResizeObserver === 'undefined') return;
+		const observer = new ResizeObserver(() =>
+			setWidth(el.clientWidth),
+		);
+		observer.observe(el);
+		return () => observer.disconnect();
+	}, []);
+
+	/** Itens migrados: medidos (JS) ou declarados via `collapseBelow` (CSS) */
+	const moved = new Set(
+		measured ?
+			candidates.slice(0, collapsed).map(({ i }) => i)
+		:	candidates
+				.filter(({ item }) => item.collapseBelow)
+				.map(({ i }) => i),
+	);
+	const visible = items
+		.filter((_, i) => !measured || !moved.has(i))
+		.map((item) =>
+			(
+				measured ||
+				!isNavItem(item) ||
+				!(item as TBarItem).collapseBelow
+			) ?
+				item
+			:	{
+					...item,
+					'data-collapse-below': (item as TBarItem).collapseBelow,
+				},
+		);
+
+	/** Menu "mais" (sem JS: exibido abaixo do maior `collapseBelow`) */
+	const movedItems = items.filter((_, i) =>
+		moved.has(i),
+	) as TBarItem[];
+	const widest = BREAKPOINT_ORDER.filter((bp) =>
+		movedItems.some((item) => item.collapseBelow === bp),
+	).pop();
+	if (movedItems.length) {
+		visible.push(
+			Menu({
+				icon: 'fas ellipsis-vertical',
+				ariaLabel: 'Mais opções',
+				compact: true,
+				menuAlign: zone === 'end' ? 'right' : 'left',
+				className: 'header-jcem-more',
+				itens: movedItems.map(
+					({ priority, collapseBelow, ...rest }) =>
+						measured ? rest : (
+							{ ...rest, 'data-expand-below': collapseBelow }
+						),
+				) as TItemX[],
+				...(!measured && { 'data-expand-below': widest }),
+			}) as TBarItem,
+		);
+	}
+
+	const empty =
+		!items.length && !lead.some(Boolean) && !trail.some(Boolean);
+	if (empty && !keep) return null;
 
 	return (
-		<div className={`navbar-${zone} h-full`}>
-			{items && groupItems(items, compact, escopo, zone)}
-			{extra}
+		<div
+			ref={ref}
+			data-overflow={measured ? 'measure' : 'css'}
+			className={clsx(
+				`navbar-${zone} h-full`,
+				(keep || items.length > 0) && 'min-w-0',
+				keep && 'w-auto',
+			)}
+		>
+			{lead}
+			{groupItems(visible, compact, escopo, zone)}
+			{trail}
 		</div>
 	);
 }
@@ -241,19 +420,105 @@ function renderZone(
 /** 🚀 Componente principal HeaderBar */
 export function HeaderBar({
 	classPart = '',
+	title,
+	subtitle,
+	logo,
+	logoAlt = '',
+	logoHref,
+	headingLevel,
 	left = [],
 	center = [],
 	right = [],
 	searchComponent,
 	titleAlign = 'left',
 	variant = 'normal',
+	sticky = variant === 'sticky',
 	size = 'sm',
 	shadow = 'none',
-	compact = false,
+	compact,
 	escopo = 'header',
+	drawerToggles = true,
 	className,
 	...props
 }: IHeader) {
+	/** 🧬 Densidade herdada do PageZoneScope quando não informada */
+	const { density, depth } = usePageZoneScope();
+	compact = compact ?? density === 'compact';
+
+	/** 🍔 Botões automáticos da gaveta: apenas no primeiro HeaderBar do PageZone */
+	const navs = usePageZoneNav();
+	const barId = useRef(`hbar-${guid(8)}`).current;
+	const { drawer } = navs;
+	const ownsDrawer = drawer?.owner === barId;
+
+	/** Reivindica antes da pintura; libera ao desmontar (o próximo HeaderBar assume) */
+	useLayoutEffect(() => {
+		if (!drawer || !drawerToggles) return;
+		drawer.claim(barId);
+		return () => drawer.release(barId);
+	}, [drawer?.owner, drawerToggles]);
+
+	const drawerLeft = ownsDrawer && navs.left && (
+		<NavToggle side="left" target="drawer" />
+	);
+	const drawerRight = ownsDrawer && navs.right && (
+		<NavToggle side="right" target="drawer" />
+	);
+
+	/** 🏷️ Marca: logo + título/subtítulo (nível do heading segue o aninhamento do PageZone) */
+	const Heading =
+		`h${headingLevel ?? Math.min(Math.max(depth + 1, 1), 6)}` as 'h1';
+	const logoNode =
+		typeof logo === 'string' ?
+			<img src={logo} alt={logoAlt} className="h-8 w-auto" />
+		:	logo;
+	const brand = (logo || title || subtitle) && (
+		<div
+			className={clsx(
+				'header-jcem-brand flex items-center gap-2 min-w-0',
+				titleAlign === 'center' && 'justify-center text-center',
+				titleAlign === 'right' && 'flex-row-reverse text-right',
+			)}
+		>
+			{logoNode &&
+				(logoHref ?
+					<a href={logoHref} className="flex-shrink-0">
+						{logoNode}
+					</a>
+				:	<span className="flex-shrink-0">{logoNode}</span>)}
+			{(title || subtitle) && (
+				<div className="flex flex-col min-w-0 leading-tight">
+					{title && (
+						<Heading className="m-0 truncate font-semibold text-[1.125em]">
+							{title}
+						</Heading>
+					)}
+					{subtitle && (
+						<p className="m-0 truncate text-[0.75em] opacity-70">
+							{subtitle}
+						</p>
+					)}
+				</div>
+			)}
+		</div>
+	);
+
+	/** ⚖️ Título centralizado: grade 1fr/auto/1fr independe da largura das laterais */
+	const centered = !!brand && titleAlign === 'center';
+
+	/** ⌨️ Roving tabindex entre todas as zonas: a barra é uma única parada de Tab */
+	const barRef = useRef<HTMLElement>(null);
+	const onKeyDown = useRovingFocus(
+		barRef,
+		() =>
+			Array.from(
+				barRef.current?.querySelectorAll<HTMLElement>(
+					":scope > [data-overflow] > [data-inav] > ul, :scope > [data-overflow] > [class*='btb-jcem']",
+				) ?? [],
+			).flatMap((el) => (el.tagName === 'UL' ? ownItems(el) : [el])),
+		'horizontal',
+	);
+
 	/** 🎨 Classes do Header */
 	const headerClasses = twMerge(
 		clsx(
@@ -262,6 +527,7 @@ export function HeaderBar({
 			sizeMap[size],
 			shadowMap[shadow],
 			compact ? 'py-1 px-2' : 'py-2 px-4',
+			centered && 'grid grid-cols-[minmax(0,1fr)_auto_minmax(0,1fr)]',
 			`header-jcem-${escopo}`,
 			classPart && `header-${classPart}`,
 		),
@@ -283,10 +549,42 @@ export function HeaderBar({
 
 	/** 🚀 Renderização */
 	return (
-		<header {...props} className={headerClasses}>
-			{renderZone(left, 'start', compact, escopo)}
-			{renderZone(center, 'center', compact, escopo)}
-			{renderZone(right, 'end', compact, escopo, searchBox)}
+		<header
+			{...props}
+			ref={barRef}
+			onKeyDown={onKeyDown}
+			className={headerClasses}
+			data-sticky={sticky || undefined}
+		>
+			<BarZone
+				items={left}
+				zone="start"
+				compact={compact}
+				escopo={escopo}
+				lead={[drawerLeft, titleAlign === 'left' && brand]}
+				keep={centered}
+			/>
+			<BarZone
+				items={center}
+				zone="center"
+				compact={compact}
+				escopo={escopo}
+				lead={[centered && brand]}
+			/>
+			<BarZone
+				items={right}
+				zone="end"
+				compact={compact}
+				escopo={escopo}
+				trail={[
+					searchBox,
+					titleAlign === 'right' && brand,
+					drawerRight,
+				]}
+				keep={centered}
+			/>
 		</header>
 	);
 }
+
+HeaderBar.displayName = 'HeaderBar';
@@ -0,0 +1,29 @@
+/**
+ * HeaderBarVariants — Mapeamentos visuais do HeaderBar.
+ *
+ * @description
+ * Classes do componente sem dependência de Preact: compartilhadas pelo
+ * componente e pelo renderizador vanilla (`@ts/vanilla`), garantindo a
+ * mesma saída de classes em ambos.
+ *
+ * @see {@link HeaderBar}
+ */
+
+/** 🔧 Mapeamento de tamanhos → Tailwind */
+export const sizeMap = {
+	xs: 'text-xs',
+	sm: 'text-sm',
+	md: 'text-md',
+	lg: 'text-lg',
+	xl: 'text-xl',
+} as const;
+
+/** 🔧 Mapeamento de sombras → Tailwind */
+export const shadowMap = {
+	none: '',
+	sm: 'shadow-sm',
+	md: 'shadow-md',
+	lg: 'shadow-lg',
+	xl: 'shadow-xl',
+	'2xl': 'shadow-2xl',
+} as const;
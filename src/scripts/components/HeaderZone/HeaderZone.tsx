@@ -46,9 +46,18 @@
  *   • HeaderZone → MainZone → FootZone
  *
  * @layout
- * - Modos:
- *   • Fixed: Fixa no topo da página
- *   • Static: Fluxo normal no documento
+ * - Modos (`position`):
+ *   • `static`: Fluxo normal no documento (padrão)
+ *   • `sticky`: Fluxo normal, toda a pilha presa ao topo durante a rolagem
+ *   • `fixed`: Fixa no topo da viewport; espaçador reserva a altura no fluxo
+ * - Barras fixas (modo `static`):
+ *   • HeaderBar com `sticky` prende-se ao topo na ordem de renderização,
+ *     cada uma abaixo das anteriores (offset acumulado em `--hbar-offset`)
+ *   • O cabeçalho (landmark preservado) prende-se a partir da primeira barra
+ *     `sticky` (`--hzone-sticky-top`); sem JS, prende-se inteiro
+ * - Auto-hide (`autoHide`, modos `sticky`/`fixed`):
+ *   • Oculta ao rolar para baixo e reaparece ao rolar para cima ou ao receber foco
+ *   • Sem animação quando `prefers-reduced-motion: reduce`
  * - Largura:
  *   • Full (100%)
  *   • Container (centralizado, máx. 1280px)
@@ -69,7 +78,9 @@
  *   3. Performance (zero JS para estado/animações/transições)     
  * 
  * @props
- * - `fixed`: boolean (default false)
+ * - `position`: 'static' | 'sticky' | 'fixed' (default 'static')
+ * - `fixed`: boolean (default false) → atalho para `position="fixed"`
+ * - `autoHide`: boolean (default false)
  * - `shadow`: boolean (default true)
  * - `container`: boolean (default false) → ativa largura limitada
  * - `escopo`: string (namespace de dados e classes)
@@ -112,17 +123,106 @@
  * @see {@link HeaderBar}
  */
 
-import { JSX, toChildArray, VNode } from 'preact';
-import { useEffect } from 'preact/hooks';
+import { toChildArray, VNode } from 'preact';
+import { useEffect, useRef, useState } from 'preact/hooks';
+import clsx from 'clsx';
 import {
 	SectionWrapperBase,
 	ISectionWrapperBase,
 } from '../SectionWrapperBase/SectionWrapperBase';
-import Logger from '@mod/jcemTS/src/ts/utils/logger';
+import {
+	scopedId,
+	usePageZoneScope,
+} from '../PageZone/PageZoneScope';
+import { useReservedSpace } from '@ts/hooks/useReservedSpace';
+import { guid } from '@mod/jcemTS/src/ts/common/generic';
+import type { IHeader } from '../HeaderBar/HeaderBar';
+import { positionMap } from './HeaderZoneVariants';
+import './HeaderZone.scss';
 
 /** Props do HeaderZone */
 export interface IHeaderZone
-	extends Omit<ISectionWrapperBase, 'as' | 'stack'> {}
+	extends Omit<ISectionWrapperBase, 'as' | 'stack'> {
+	position?: 'static' | 'sticky' | 'fixed';
+	fixed?: boolean;
+	autoHide?: boolean;
+}
+
+/** Deslocamento mínimo (px) para alternar o auto-hide */
+const SCROLL_DELTA = 8;
+
+/** 📐 Offsets acumulados das HeaderBar `sticky`, na ordem de renderização */
+function useStickyOffsets(id: string, enabled: boolean) {
+	useEffect(() => {
+		const root = document.getElementById(id);
+		if (!enabled || !root) return;
+
+		const bars = Array.from(
+			root.querySelectorAll<HTMLElement>(
+				'[class*="header-jcem-"][data-sticky]',
+			),
+		);
+		if (!bars.length) return;
+
+		const sync = () => {
+			let offset = 0;
+			for (const bar of bars) {
+				bar.style.setProperty('--hbar-offset', `${offset}px`);
+				offset += bar.offsetHeight;
+			}
+			// O que antecede a primeira barra presa rola para fora da viewport
+			const lead =
+				bars[0].getBoundingClientRect().top -
+				root.getBoundingClientRect().top;
+			root.style.setProperty('--hzone-sticky-top', `${-lead}px`);
+		};
+
+		sync();
+		if (typeof ResizeObserver === 'undefined') return;
+		const observer = new ResizeObserver(sync);
+		[root, ...bars].forEach((el) => observer.observe(el));
+		return () => observer.disconnect();
+	});
+}
+
+/** 🙈 Oculta ao rolar para baixo, reexibe ao rolar para cima ou ao focar */
+function useAutoHide(id: string, enabled: boolean) {
+	const [hidden, setHidden] = useState(false);
+
+	useEffect(() => {
+		const root = document.getElementById(id);
+		if (!enabled || !root) return setHidden(false);
+
+		let last = window.scrollY;
+		let frame = 0;
+
+		const onScroll = () => {
+			if (frame) return;
+			frame = requestAnimationFrame(() => {
+				frame = 0;
+				const y = window.scrollY;
+				if (Math.abs(y - last) < SCROLL_DELTA) return;
+				setHidden(
+					y > last &&
+						y > root.offsetHeight &&
+						!root.contains(document.activeElement),
+				);
+				last = y;
+			});
+		};
+		const onFocus = () => setHidden(false);
+
+		window.addEventListener('scroll', onScroll, { passive: true });
+		root.addEventListener('focusin', onFocus);
+		return () => {
+			cancelAnimationFrame(frame);
+			window.removeEventListener('scroll', onScroll);
+			root.removeEventListener('focusin', onFocus);
+		};
+	}, [id, enabled]);
+
+	return hidden;
+}
 
 /** 🔥 HeaderZone */
 export function HeaderZone({
@@ -130,39 +230,82 @@ export function HeaderZone({
 	shadow = true,
 	container = false,
 	debug = false,
+	fixed = false,
+	position = fixed ? 'fixed' : 'static',
+	autoHide = false,
 	children,
 	...props
 }: IHeaderZone) {
-	const parsedChildren = toChildArray(children) as VNode[];
+	const bars = toChildArray(children).filter(
+		(child): child is VNode<IHeader> =>
+			typeof child === 'object' &&
+			typeof child?.type === 'function' &&
+			child.type.displayName === 'HeaderBar',
+	);
+	const scope = usePageZoneScope();
+	const { logger } = scope;
+	const id = useRef(
+		`${props.id ?? scopedId(scope, `hzone-${guid(8)}`)}`,
+	).current;
+	const spacer = useRef<HTMLDivElement>(null);
+
+	/** 📏 Espaço reservado, barras presas e auto-hide */
+	useReservedSpace(id, spacer, 'hzone-spacer', position === 'fixed');
+	useStickyOffsets(id, position === 'static');
+	const hidden = useAutoHide(id, autoHide && position !== 'static');
 
 	/** ✅ Validação estrutural */
+	const hasHeaderBar = bars.length > 0;
 	useEffect(() => {
-		const hasHeaderBar = parsedChildren.some(
-			(child) =>
-				child &&
-				typeof child === 'object' &&
-				(child.type as any)?.displayName === 'HeaderBar',
-		);
-
 		if (!hasHeaderBar) {
-			Logger.warn(
+			logger.warn(
 				`[HeaderZone] Nenhum HeaderBar encontrado em escopo "${escopo}". Recomenda-se incluir um HeaderBar para melhor conformidade visual e estrutural.`,
 			);
 		}
-	}, [parsedChildren, escopo]);
+	}, [hasHeaderBar, escopo]);
+
+	/** 📌 Barras `sticky`: o cabeçalho prende-se a partir da primeira delas */
+	const stickyBars =
+		position === 'static' &&
+		bars.some(({ props: p }) => p.sticky || p.variant === 'sticky');
+
+	useEffect(() => {
+		if (autoHide && position === 'static') {
+			logger.warn(
+				`[HeaderZone] \`autoHide\` ignorado em escopo "${escopo}": requer \`position\` "sticky" ou "fixed".`,
+			);
+		}
+	}, [autoHide, position, escopo]);
 
 	return (
-		<SectionWrapperBase
-			{...props}
-			escopo={escopo}
-			as="header"
-			stack={true}
-			shadow={shadow}
-			container={container}
-			className="hzone-jcem"
-		>
-			{children}
-		</SectionWrapperBase>
+		<>
+			<SectionWrapperBase
+				{...props}
+				id={id}
+				escopo={escopo}
+				as="header"
+				stack={true}
+				shadow={shadow}
+				container={container}
+				className={clsx('hzone-jcem', positionMap[position])}
+				data-position={position}
+				data-sticky-bars={stickyBars || undefined}
+				data-autohide={
+					(autoHide && position !== 'static') || undefined
+				}
+				data-hidden={hidden || undefined}
+				debug={debug}
+			>
+				{children}
+			</SectionWrapperBase>
+			{position === 'fixed' && (
+				<div
+					ref={spacer}
+					aria-hidden="true"
+					className="hzone-jcem-spacer"
+				/>
+			)}
+		</>
 	);
 }
 
@@ -0,0 +1,17 @@
+/**
+ * HeaderZoneVariants — Mapeamentos visuais do HeaderZone.
+ *
+ * @description
+ * Classes do componente sem dependência de Preact: compartilhadas pelo
+ * componente e pelo renderizador vanilla (`@ts/vanilla`), garantindo a
+ * mesma saída de classes em ambos.
+ *
+ * @see {@link HeaderZone}
+ */
+
+/** 🔧 Mapeamento de modos → Tailwind */
+export const positionMap = {
+	static: '',
+	sticky: 'sticky top-0 z-40',
+	fixed: 'fixed top-0 inset-x-0 z-40',
+} as const;
@@ -0,0 +1,85 @@
+/**
+ * FontAwesomeIcons — Provider de ícones FontAwesome (opt-in: `icons={fontAwesomeIcons()}`).
+ *
+ * @description
+ * Resolve strings no formato "fas icon-name" (prefixo + nome, `fa-` opcional;
+ * sem prefixo → `fas`),
+ * tuplas `['fas', 'icon-name']` e `IconProp`/`IconLookup`. Apenas ícones
+ * registrados na `library` (ver `fa:gen` → `src/__generated__/fontawesome.ts`)
+ * são resolvidos; os demais seguem para o próximo provider da cadeia.
+ *
+ * @development
+ * - Único ponto do projeto que importa `@fortawesome/*` em runtime; nenhum
+ *   componente o importa, apenas o consumidor que o declara no `PageZone`.
+ * - Boas práticas:
+ *   • Mensagens de log/warn/error via Logger
+ *   • Manutenção git-friendly (evitar breaking changes)
+ *   • Comentário de uma única linha preferíveis, exceto quando para jsDoc
+ *
+ * @see {@link IconProvider}
+ */
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import {
+	findIconDefinition,
+	IconLookup,
+	IconName,
+	IconPrefix,
+	IconProp,
+} from '@fortawesome/fontawesome-svg-core';
+import { noEmpty } from '@mod/jcemTS/src/ts/common/logicos';
+import type { IIconProvider, TIcon } from './IconProvider';
+
+/** 🔎 Lookup FontAwesome a partir de qualquer formato aceito (ou `null`) */
+export function toIconLookup(x: TIcon): IconLookup | null {
+	if (noEmpty(x, 'string')) {
+		const parts = `${x}`.trim().split(/\s+/);
+		// Nome sem prefixo ("house") → estilo padrão (solid)
+		const [prefix, ...rest] =
+			parts.length > 1 ? parts : ['fas', ...parts];
+		const iconName = rest.join('-').replace(/^fa-/, '');
+		return iconName ?
+				{
+					prefix: prefix as IconPrefix,
+					iconName: iconName as IconName,
+				}
+			:	null;
+	}
+	if (Array.isArray(x) && x.length === 2) {
+		return { prefix: x[0] as IconPrefix, iconName: x[1] as IconName };
+	}
+	if (x && typeof x === 'object' && 'iconName' in x) {
+		return {
+			prefix: ((x as IconLookup).prefix ?? 'fas') as IconPrefix,
+			iconName: (x as IconLookup).iconName,
+		};
+	}
+	return null;
+}
+
+/**
+ * Garantia de IconProp válido (string "fas icon-name" ou IconProp)
+ * @deprecated Use o provider do escopo (`useIcon`) — mantido por compatibilidade.
+ */
+export function toIconProp(
+	x: any,
+	logger: { warn: (...args: any[]) => void },
+	def: any = ['fas', 'question-circle'],
+): IconProp {
+	const lookup = x ? toIconLookup(x) : null;
+	if (!lookup) logger.warn(`Ícone string inválido: "${x}"`);
+	return lookup ?? def;
+}
+
+/** 🏳️ Provider FontAwesome */
+export function fontAwesomeIcons({
+	name = 'fontawesome',
+} = {}): IIconProvider {
+	return {
+		name,
+		resolve: (icon, className) => {
+			const lookup = toIconLookup(icon);
+			if (!lookup || !findIconDefinition(lookup)) return null;
+			return <FontAwesomeIcon icon={lookup} className={className} />;
+		},
+	};
+}
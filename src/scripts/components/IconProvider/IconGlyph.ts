@@ -0,0 +1,56 @@
+/**
+ * IconGlyph — Partes dos providers de ícones sem dependência de Preact.
+ *
+ * @description
+ * Nome textual, detecção de emoji e classes dos glifos (`sprite`, `text`,
+ * placeholder) compartilhados por `IconProvider` e pelo renderizador
+ * vanilla (`@ts/vanilla`), garantindo a mesma saída de classes.
+ *
+ * @see {@link IconProvider}
+ */
+
+/** Ícone declarado: nome ("fas house", "🏠", "home") ou descritor do provider */
+export type TIcon = string | readonly string[] | Record<string, any>;
+
+/** Nome textual de um ícone (para placeholders e logs) */
+export const iconName = (icon: TIcon) =>
+	typeof icon === 'string' ? icon
+	: Array.isArray(icon) ? icon.join(' ')
+	: ((icon as Record<string, any>).iconName ?? JSON.stringify(icon));
+
+/** Emoji isolado (sem nome/prefixo) */
+const EMOJI =
+	/^\p{Extended_Pictographic}(\u200d|\ufe0f|\p{Extended_Pictographic}|\p{Emoji_Modifier})*$/u;
+
+/** 🔤 Glifo de um ícone textual: mapeado por nome ou o próprio emoji */
+export function textGlyph(icon: TIcon, map: Record<string, string>) {
+	if (typeof icon !== 'string') return null;
+	const key = icon.trim();
+	return map[key] ?? (EMOJI.test(key) ? key : null);
+}
+
+/** 🖼️ Id do símbolo no sprite (sem espaços) */
+export function spriteId(icon: TIcon) {
+	if (typeof icon !== 'string') return null;
+	const id = icon.trim();
+	return !id || /\s/.test(id) ? null : id;
+}
+
+/**
+ * 🔣 Glifos neutros dos controles internos (`NavToggle`, dobras "mais" do
+ * `NavIcon`/`HeaderBar`/`Breadcrumbs`), resolvidos pelo escopo raiz. Um
+ * provider do `PageZone` que resolva os mesmos nomes os substitui.
+ */
+export const BUILTIN_GLYPHS: Record<string, string> = {
+	'fas bars': '☰',
+	'fas ellipsis': '…',
+	'fas ellipsis-vertical': '⋮',
+};
+
+/** 🎨 Classes base dos glifos */
+export const ICON_CLASS = {
+	sprite: 'icon-jcem icon-jcem-sprite',
+	text: 'icon-jcem icon-jcem-text inline-flex items-center justify-center leading-none',
+	missing:
+		'icon-jcem icon-jcem-missing inline-flex items-center justify-center leading-none opacity-60',
+} as const;
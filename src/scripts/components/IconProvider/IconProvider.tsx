@@ -0,0 +1,219 @@
+/**
+ * IconProvider — Abstração plugável de ícones (nome → renderizável).
+ *
+ * @description
+ * Desacopla os componentes (`ButtonX`, `Breadcrumbs`, `MenuX`, ...) de uma
+ * biblioteca de ícones específica. Um provider recebe o ícone declarado
+ * (string ou descritor) e devolve um nó renderizável — ou `null` quando
+ * não o reconhece, passando a vez ao próximo provider da cadeia.
+ *
+ * @structure
+ * ```
+ * [PageZone icons={...}]                 → provider do escopo
+ *  └── ButtonX icon="fas house"
+ *       └── useIcon()(icon, className)
+ *            ├── provider local           (ex.: spriteIcons)
+ *            ├── provider herdado         (ex.: fontAwesomeIcons no shell)
+ *            └── placeholder + warn       (nenhum provider resolveu)
+ * ```
+ *
+ * @integration
+ * - Providers incluídos:
+ *   • `fontAwesomeIcons()`: "fas house", `['fas', 'house']` ou `IconProp` (opt-in, ver `FontAwesomeIcons`)
+ *   • `spriteIcons(href)`: `<svg><use href="{href}#{id}"/></svg>` de um sprite SVG inline/externo
+ *   • `textIcons(map?)`: emoji/texto, direto ou mapeado por nome
+ *   • `componentIcons(Component)`: componente do consumidor (`{ name, className }`)
+ * - Seleção por escopo: `PageZone` aceita `icons` como provider, renderizador legado
+ *   (`TIconRenderer`) ou lista (cadeia em ordem de prioridade).
+ *
+ * @behavior
+ * - Fallback documentado, nesta ordem:
+ *   1. Providers declarados no `PageZone` mais próximo (em ordem).
+ *   2. Providers herdados dos `PageZone` ancestrais; o escopo raiz resolve apenas
+ *      emojis e os glifos neutros dos controles internos (`BUILTIN_GLYPHS`:
+ *      "fas bars" → ☰, "fas ellipsis" → …), substituíveis por um provider que
+ *      resolva os mesmos nomes (ex.: `fontAwesomeIcons()` com o ícone registrado).
+ *   3. Placeholder `.icon-jcem-missing` (glifo "?", `aria-hidden`) + warning via Logger.
+ * - Um provider que lança erro interrompe a cadeia → placeholder (warning via Logger).
+ * - Ícones são sempre decorativos (`aria-hidden`): o rótulo acessível vem do componente.
+ *
+ * @development
+ * - Boas práticas:
+ *   • Mensagens de log/warn/error via Logger
+ *   • Manutenção git-friendly (evitar breaking changes)
+ *   • Comentário de uma única linha preferíveis, exceto quando para jsDoc
+ *
+ * @see {@link PageZone}
+ * @see {@link ButtonX}
+ */
+import { ComponentChild, ComponentType } from 'preact';
+import { useCallback } from 'preact/hooks';
+import { twMerge } from 'tailwind-merge';
+import {
+	IScopeLogger,
+	TIconRenderer,
+	usePageZoneScope,
+} from '../PageZone/PageZoneScope';
+import {
+	ICON_CLASS,
+	iconName,
+	spriteId,
+	textGlyph,
+	TIcon,
+} from './IconGlyph';
+
+export { iconName, type TIcon };
+
+/** Provider de ícones: resolve o ícone ou devolve `null` (não reconhecido) */
+export interface IIconProvider {
+	name: string;
+	resolve: (icon: TIcon, className?: string) => ComponentChild | null;
+}
+
+/** Formas aceitas em `PageZone.icons` */
+export type TIconSource = IIconProvider | TIconRenderer;
+
+/** Props do componente de ícone fornecido pelo consumidor */
+export interface IIconComponentProps {
+	name: TIcon;
+	className?: string;
+}
+
+/** 🖼️ Sprite SVG: id sem espaços → `<use href="{href}#{prefix}{id}">` */
+export function spriteIcons(
+	href = '',
+	{ prefix = '', name = 'sprite' } = {},
+): IIconProvider {
+	return {
+		name,
+		resolve: (icon, className) => {
+			const id = spriteId(icon);
+			if (!id) return null;
+			return (
+				<svg
+					aria-hidden="true"
+					focusable="false"
+					className={twMerge(ICON_CLASS.sprite, className)}
+				>
+					<use href={`${href}#${prefix}${id}`} />
+				</svg>
+			);
+		},
+	};
+}
+
+/** 🔤 Emoji/texto: mapa nome → glifo, ou o próprio emoji quando declarado direto */
+export function textIcons(
+	map: Record<string, string> = {},
+	{ name = 'text' } = {},
+): IIconProvider {
+	return {
+		name,
+		resolve: (icon, className) => {
+			const glyph = textGlyph(icon, map);
+			if (!glyph) return null;
+			return (
+				<span
+					aria-hidden="true"
+					className={twMerge(ICON_CLASS.text, className)}
+				>
+					{glyph}
+				</span>
+			);
+		},
+	};
+}
+
+/** 🧩 Componente do consumidor; `accepts` filtra os ícones que ele conhece */
+export function componentIcons(
+	Component: ComponentType<IIconComponentProps>,
+	{
+		name = 'component',
+		accepts = () => true,
+	}: { name?: string; accepts?: (icon: TIcon) => boolean } = {},
+): IIconProvider {
+	return {
+		name,
+		resolve: (icon, className) =>
+			accepts(icon) ?
+				<Component name={icon} className={className} />
+			:	null,
+	};
+}
+
+/** 🔗 Cadeia: o primeiro provider que resolver vence */
+export function chainIcons(
+	...providers: (IIconProvider | undefined)[]
+): IIconProvider {
+	const list = providers.filter(Boolean) as IIconProvider[];
+	if (list.length === 1) return list[0];
+	return {
+		name: list.map((p) => p.name).join(' → '),
+		resolve: (icon, className) => {
+			for (const p of list) {
+				const node = p.resolve(icon, className);
+				if (node != null) return node;
+			}
+			return null;
+		},
+	};
+}
+
+/** ♻️ Normaliza `PageZone.icons` (provider, renderizador legado ou lista) */
+export function toIconProvider(
+	source?: TIconSource | TIconSource[],
+): IIconProvider | undefined {
+	if (!source) return undefined;
+	if (Array.isArray(source)) {
+		return chainIcons(...source.map((s) => toIconProvider(s)));
+	}
+	if (typeof source === 'function') {
+		return {
+			name: source.name || 'renderer',
+			resolve: (icon, className) => source(icon, className) ?? null,
+		};
+	}
+	return source;
+}
+
+/** ❔ Resolve o ícone pela cadeia do escopo, com placeholder como último recurso */
+export function renderIcon(
+	provider: IIconProvider | undefined,
+	icon: TIcon,
+	className: string | undefined,
+	logger: IScopeLogger,
+): ComponentChild {
+	let node: ComponentChild | null = null;
+	try {
+		node = provider?.resolve(icon, className) ?? null;
+	} catch (err) {
+		logger.warn(
+			`[IconProvider] (${provider?.name}) falhou ao resolver "${iconName(icon)}".`,
+			err,
+		);
+	}
+	if (node != null) return node;
+
+	logger.warn(
+		`[IconProvider] Ícone "${iconName(icon)}" não resolvido (${provider?.name ?? 'sem provider'}).`,
+	);
+	return (
+		<span
+			aria-hidden="true"
+			data-icon={iconName(icon)}
+			className={twMerge(ICON_CLASS.missing, className)}
+		>
+			?
+		</span>
+	);
+}
+
+/** 🪝 Renderizador de ícones do `PageZone` mais próximo */
+export function useIcon() {
+	const { icons, logger } = usePageZoneScope();
+	return useCallback(
+		(icon: TIcon, className?: string) =>
+			renderIcon(icons, icon, className, logger),
+		[icons, logger],
+	);
+}
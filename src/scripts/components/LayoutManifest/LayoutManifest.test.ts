@@ -0,0 +1,181 @@
+import { h, render } from 'preact';
+import { act } from 'preact/test-utils';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import Ajv2020 from 'ajv/dist/2020';
+import example from '../../../../config/layout.example.json';
+import schema from '../../../../config/layout.schema.json';
+import {
+	ILayoutManifest,
+	LayoutManifest,
+	validateLayoutManifest,
+} from './LayoutManifest';
+
+const slots = { main: 'Conteúdo', account: 'Conta' };
+
+/** Manifesto mínimo com a raiz sobrescrita (entradas malformadas via `any`) */
+const manifest = (
+	root: Record<string, unknown>,
+): ILayoutManifest => ({
+	version: 1,
+	root: { content: { children: [{ slot: 'main' }] }, ...root } as any,
+});
+
+const report = (m: ILayoutManifest) =>
+	validateLayoutManifest(m, slots).map(
+		(v) => `${v.code} ${v.message}`,
+	);
+
+describe('layout.schema.json', () => {
+	it('manifesto de exemplo é válido pelo schema', () => {
+		const validate = new Ajv2020({ allErrors: true }).compile(schema);
+		expect(validate(example), JSON.stringify(validate.errors)).toBe(
+			true,
+		);
+	});
+});
+
+describe('validateLayoutManifest', () => {
+	it('manifesto de exemplo não gera violações', () => {
+		expect(
+			validateLayoutManifest(example as ILayoutManifest, slots),
+		).toEqual([]);
+	});
+
+	it('versão não suportada ou raiz que não é objeto', () => {
+		expect(report({ version: 2, root: {} } as any)).toEqual([
+			expect.stringMatching(/^LM_VERSION/),
+		]);
+		expect(report({ version: 1, root: [] } as any)).toEqual([
+			expect.stringMatching(/^LM_VERSION/),
+		]);
+		expect(report(null as any)).toEqual([
+			expect.stringMatching(/^LM_VERSION/),
+		]);
+	});
+
+	it('listas que não são array geram LM_NODE_INVALID com o caminho', () => {
+		expect(
+			report(
+				manifest({
+					left: { itens: { kind: 'button' } },
+					header: { children: 'bar' },
+					footer: {
+						children: [
+							{ nav: { itens: 'x' } },
+							{ bar: { right: { slot: 'account' } } },
+						],
+					},
+				}),
+			),
+		).toEqual([
+			'LM_NODE_INVALID Lista esperada em root.left.itens.',
+			'LM_NODE_INVALID Lista esperada em root.header.children.',
+			'LM_NODE_INVALID Lista esperada em root.footer.children[0].nav.itens.',
+			'LM_NODE_INVALID Lista esperada em root.footer.children[1].bar.right.',
+		]);
+	});
+
+	it('itens de menu aninhados que não são array', () => {
+		expect(
+			report(
+				manifest({
+					right: {
+						itens: [{ kind: 'menu', label: 'Mais', itens: 3 }],
+					},
+				}),
+			),
+		).toEqual([
+			'LM_NODE_INVALID Lista esperada em root.right.itens[0].itens.',
+		]);
+	});
+
+	it('nós e itens sem forma reconhecida', () => {
+		expect(
+			report(
+				manifest({
+					header: {
+						children: [
+							null,
+							7,
+							{ nav: 'x' },
+							{ zone: [] },
+							{ bar: { left: ['x', { toggle: 'left' }] } },
+						],
+					},
+					left: { itens: [{ label: 'sem kind' }] },
+				}),
+			),
+		).toEqual([
+			'LM_NODE_INVALID Nó inválido em root.left.itens[0].',
+			'LM_NODE_INVALID Nó inválido em root.header.children[0].',
+			'LM_NODE_INVALID Nó inválido em root.header.children[1].',
+			'LM_NODE_INVALID Nó inválido em root.header.children[2].',
+			'LM_NODE_INVALID Nó inválido em root.header.children[3].',
+			'LM_NODE_INVALID Nó inválido em root.header.children[4].bar.left[0].',
+		]);
+	});
+
+	it('content ausente e slot sem conteúdo', () => {
+		const violations = validateLayoutManifest(
+			{
+				version: 1,
+				root: { header: { children: [{ slot: 'menu' }] } } as any,
+			},
+			slots,
+		);
+
+		expect(violations.map((v) => [v.code, v.kind])).toEqual([
+			['LM_NODE_INVALID', 'structural'],
+			['LM_SLOT_MISSING', 'advisory'],
+		]);
+	});
+});
+
+describe('LayoutManifest — entradas malformadas', () => {
+	let root: HTMLElement;
+
+	afterEach(() => {
+		render(null, root);
+		root.remove();
+	});
+
+	it('renderiza ignorando listas e nós inválidos', () => {
+		root = document.body.appendChild(document.createElement('div'));
+		const onViolation = vi.fn();
+		const renderManifest = () =>
+			act(() => {
+				render(
+					h(LayoutManifest, {
+						manifest: manifest({
+							left: { itens: 'x' },
+							header: {
+								children: [
+									{ bar: { title: 'App', left: {}, right: 'x' } },
+									{ nav: { itens: [{ kind: 'menu', itens: {} }] } },
+								],
+							},
+							footer: { children: { text: 'x' } },
+						}),
+						slots,
+						validation: 'warn',
+						onViolation,
+					}),
+					root,
+				);
+			});
+
+		// Re-renderizar o mesmo manifesto não repete o reporte
+		renderManifest();
+		renderManifest();
+
+		expect(root.textContent).toContain('App');
+		expect(root.textContent).toContain('Conteúdo');
+		const reported = onViolation.mock.calls
+			.map(([v]) => v)
+			.filter((v) => v.component === 'LayoutManifest');
+		expect(reported).toHaveLength(5);
+		expect(reported.every((v) => v.code === 'LM_NODE_INVALID')).toBe(
+			true,
+		);
+	});
+});
@@ -0,0 +1,502 @@
+/**
+ * LayoutManifest — Renderiza uma árvore de PageZone a partir de um manifesto JSON.
+ *
+ * @description
+ * O shell da página (zonas, barras, navegações e itens) é descrito por um
+ * manifesto serializável, validado por `config/layout.schema.json`. O
+ * backend pode entregar a navegação por tenant sem novo deploy do frontend;
+ * o conteúdo da aplicação é montado nos slots (`{ "slot": "nome" }`).
+ *
+ * @structure
+ * ```
+ * { version: 1, root: zone }
+ * zone   → [PageZone left/right]
+ *           ├── (HeaderZone)     ← header.children: node[]
+ *           ├── [ContentWrapper] ← content.children: node[]
+ *           └── (FooterZone)     ← footer.children: node[]
+ * node   → { slot } | { text } | { bar: HeaderBar } | { nav: NavIcon } | { zone: PageZone }
+ * item   → { kind: 'button' | 'menu', label, icon, href/route/match, itens? }
+ * bar.*  → item | { slot } | { toggle: 'left' | 'right' } | { crumbs }
+ * ```
+ *
+ * @integration
+ * - Props não serializáveis (`icons`, `location`, `logger`, `onViolation`, ...)
+ *   são repassadas ao `PageZone` raiz e herdadas pelo escopo.
+ * - Exemplo completo: `config/layout.example.json` (equivale à demo `Master`).
+ *
+ * @behavior
+ * - Diagnósticos seguem a severidade de validação do `PageZone`
+ *   (`validation` do manifesto raiz ou do escopo herdado):
+ *   • `LM_VERSION`: versão do manifesto não suportada (estrutural)
+ *   • `LM_NODE_INVALID`: nó/item sem forma reconhecida ou lista (`itens`,
+ *     `children`, zonas do `bar`) que não é array (estrutural; ignorado na renderização)
+ *   • `LM_SLOT_MISSING`: slot referenciado sem conteúdo fornecido (advisory; renderiza vazio)
+ * - Slots aceitam conteúdo ou função (avaliada a cada renderização).
+ *
+ * @props
+ * - `manifest`: `ILayoutManifest` (JSON já parseado).
+ * - `slots`: mapa nome → conteúdo da aplicação.
+ * - Demais props de `PageZone` (exceto filhos/navegações): aplicadas ao `PageZone` raiz.
+ *
+ * @development
+ * - Tipos espelham `config/layout.schema.json`; ao alterar um, alterar o outro.
+ * - Boas práticas:
+ *   • Mensagens de log/warn/error via Logger
+ *   • Manutenção git-friendly (evitar breaking changes)
+ *   • Comentário de uma única linha preferíveis, exceto quando para jsDoc
+ *
+ * @dependencies
+ * - PageZone, HeaderZone, HeaderBar, ContentWrapper, FooterZone, NavIcon, NavToggle
+ * - Preact + Vite (core)
+ *
+ * @see {@link PageZone}
+ */
+import { ComponentChildren, Fragment, JSX } from 'preact';
+import { TItemX } from '@mod/jcemTS/src/ts/common/ui';
+import {
+	PageZone,
+	IPageZone,
+	IPageZoneSideNav,
+} from '../PageZone/PageZone';
+import { usePageZoneScope } from '../PageZone/PageZoneScope';
+import {
+	IPageZoneViolation,
+	useReportViolations,
+} from '../PageZone/PageZoneValidation';
+import { HeaderZone, IHeaderZone } from '../HeaderZone/HeaderZone';
+import { HeaderBar, IHeader, TBarItem } from '../HeaderBar/HeaderBar';
+import { ContentWrapper } from '../ContentWrapper/ContentWrapper';
+import { FooterZone, IFooterZone } from '../FooterZone/FooterZone';
+import { Button, INavIcon, Menu, NavIcon } from '../NavIcon/NavIcon';
+import type { TButtonX } from '../ButtonX/ButtonX';
+import { NavToggle } from '../NavToggle/NavToggle';
+import type { TCrumb } from '../Breadcrumbs/Breadcrumbs';
+import type { TDrawerBreakpoint } from '../PageZone/PageZoneNav';
+
+/** Versão do manifesto suportada */
+export const LAYOUT_MANIFEST_VERSION = 1;
+
+/** Item de navegação (ButtonX / MenuX) */
+export interface ILayoutItem {
+	kind: 'button' | 'menu';
+	label?: string;
+	caption?: string;
+	ariaLabel?: string;
+	icon?: string;
+	href?: string;
+	route?: string;
+	match?: 'exact' | 'prefix';
+	badge?: number | string | boolean;
+	badgeLabel?: string;
+	disabled?: boolean;
+	active?: boolean;
+	priority?: number;
+	collapseBelow?: TDrawerBreakpoint;
+	menuAlign?: 'left' | 'center' | 'right';
+	openActive?: boolean;
+	itens?: ILayoutItem[];
+}
+
+/** Ponto de montagem do conteúdo da aplicação */
+export type TLayoutSlot = { slot: string };
+
+/** NavIcon serializável */
+export type TLayoutNav = Pick<
+	INavIcon,
+	| 'escopo'
+	| 'orientation'
+	| 'behavior'
+	| 'compact'
+	| 'collapsible'
+	| 'defaultExpanded'
+	| 'overflow'
+> & { itens: ILayoutItem[] };
+
+/** Item de zona do HeaderBar */
+export type TLayoutBarItem =
+	| ILayoutItem
+	| TLayoutSlot
+	| { toggle: 'left' | 'right'; target?: 'collapse' | 'drawer' }
+	| { crumbs: TCrumb[]; maxItems?: number; ariaLabel?: string };
+
+/** HeaderBar serializável */
+export type TLayoutBar = Pick<
+	IHeader,
+	| 'escopo'
+	| 'logoAlt'
+	| 'logoHref'
+	| 'headingLevel'
+	| 'titleAlign'
+	| 'variant'
+	| 'sticky'
+	| 'size'
+	| 'shadow'
+	| 'compact'
+	| 'drawerToggles'
+> & {
+	title?: string;
+	subtitle?: string;
+	logo?: string;
+	left?: TLayoutBarItem[];
+	center?: TLayoutBarItem[];
+	right?: TLayoutBarItem[];
+};
+
+/** Filho de header/content/footer */
+export type TLayoutNode =
+	| TLayoutSlot
+	| { text: string }
+	| { bar: TLayoutBar }
+	| { nav: TLayoutNav }
+	| { zone: ILayoutZone };
+
+/** PageZone serializável */
+export interface ILayoutZone
+	extends Pick<
+		IPageZone,
+		| 'escopo'
+		| 'variant'
+		| 'size'
+		| 'shadow'
+		| 'compact'
+		| 'theme'
+		| 'density'
+		| 'validation'
+		| 'drawerBelow'
+	> {
+	left?: TLayoutNav & Pick<IPageZoneSideNav, 'expansion'>;
+	right?: TLayoutNav & Pick<IPageZoneSideNav, 'expansion'>;
+	header?: Pick<IHeaderZone, 'escopo' | 'position' | 'autoHide'> & {
+		children?: TLayoutNode[];
+	};
+	content: {
+		escopo?: string;
+		stack?: boolean;
+		shadow?: boolean;
+		container?: boolean;
+		children?: TLayoutNode[];
+	};
+	footer?: Pick<IFooterZone, 'escopo' | 'position' | 'tabbar'> & {
+		children?: TLayoutNode[];
+	};
+}
+
+/** Manifesto (raiz do JSON) */
+export interface ILayoutManifest {
+	$schema?: string;
+	version: number;
+	name?: string;
+	root: ILayoutZone;
+}
+
+/** Conteúdo de um slot */
+export type TLayoutSlotContent =
+	| ComponentChildren
+	| (() => ComponentChildren);
+
+/** Props do LayoutManifest */
+export interface ILayoutManifestProps
+	extends Omit<IPageZone, 'children' | 'left' | 'right'> {
+	manifest: ILayoutManifest;
+	slots?: Record<string, TLayoutSlotContent>;
+}
+
+/** 🧠 Forma de um nó/item */
+const isObject = (x: unknown): x is Record<string, unknown> =>
+	!!x && typeof x === 'object' && !Array.isArray(x);
+const has = (x: unknown, key: string) => isObject(x) && key in x;
+const NODE_KEYS = ['slot', 'text', 'bar', 'nav', 'zone'];
+const BAR_KEYS = ['kind', 'slot', 'toggle', 'crumbs'];
+
+/** Nó reconhecido: `bar`/`nav`/`zone` exigem objeto */
+const isNode = (x: unknown): x is TLayoutNode =>
+	isObject(x) &&
+	NODE_KEYS.some(
+		(k) => k in x && (k === 'slot' || k === 'text' || isObject(x[k])),
+	);
+const isBarItem = (x: unknown): x is TLayoutBarItem =>
+	BAR_KEYS.some((k) => has(x, k));
+
+/** 🔎 Diagnósticos do manifesto (versão, nós e slots) */
+export function validateLayoutManifest(
+	manifest: ILayoutManifest,
+	slots: Record<string, TLayoutSlotContent> = {},
+): IPageZoneViolation[] {
+	const violations: IPageZoneViolation[] = [];
+	const add = (
+		escopo: string,
+		v: Omit<IPageZoneViolation, 'component' | 'escopo'>,
+	) => violations.push({ component: 'LayoutManifest', escopo, ...v });
+
+	if (
+		manifest?.version !== LAYOUT_MANIFEST_VERSION ||
+		!isObject(manifest.root)
+	) {
+		add(manifest?.name ?? 'layout', {
+			code: 'LM_VERSION',
+			kind: 'structural',
+			message: `Manifesto com versão "${manifest?.version}" ou sem \`root\`.`,
+			fix: `Use "version": ${LAYOUT_MANIFEST_VERSION} e declare \`root\` conforme config/layout.schema.json.`,
+		});
+		return violations;
+	}
+
+	const slot = (escopo: string, name: string, path: string) => {
+		if (name in slots) return;
+		add(escopo, {
+			code: 'LM_SLOT_MISSING',
+			kind: 'advisory',
+			message: `Slot "${name}" (${path}) sem conteúdo.`,
+			fix: `Forneça \`slots.${name}\` ao LayoutManifest.`,
+		});
+	};
+
+	const invalid = (
+		escopo: string,
+		path: string,
+		expected: string[],
+	) =>
+		add(escopo, {
+			code: 'LM_NODE_INVALID',
+			kind: 'structural',
+			message: `Nó inválido em ${path}.`,
+			fix: `Use um objeto com uma das chaves: ${expected.join(', ')}.`,
+		});
+
+	/** Lista opcional: ausente vale vazia; outro valor que não array é inválido */
+	const list = (escopo: string, value: unknown, path: string) => {
+		if (value == null) return [];
+		if (Array.isArray(value)) return value as unknown[];
+		add(escopo, {
+			code: 'LM_NODE_INVALID',
+			kind: 'structural',
+			message: `Lista esperada em ${path}.`,
+			fix: `Declare \`${path}\` como array ou omita a chave.`,
+		});
+		return [];
+	};
+
+	const items = (escopo: string, value: unknown, path: string) =>
+		list(escopo, value, path).forEach((item, i) => {
+			if (!has(item, 'kind'))
+				invalid(escopo, `${path}[${i}]`, ['kind']);
+			else
+				items(
+					escopo,
+					(item as ILayoutItem).itens,
+					`${path}[${i}].itens`,
+				);
+		});
+
+	const zone = (z: ILayoutZone, path: string) => {
+		const escopo = z.escopo ?? 'pagezone';
+		if (!isObject(z.content))
+			invalid(escopo, `${path}.content`, ['content']);
+		(['left', 'right'] as const).forEach(
+			(side) =>
+				z[side] &&
+				items(escopo, z[side].itens, `${path}.${side}.itens`),
+		);
+
+		(['header', 'content', 'footer'] as const).forEach((part) =>
+			list(
+				escopo,
+				z[part]?.children,
+				`${path}.${part}.children`,
+			).forEach((node, i) => {
+				const at = `${path}.${part}.children[${i}]`;
+				if (!isNode(node)) return invalid(escopo, at, NODE_KEYS);
+				if ('slot' in node) slot(escopo, node.slot, at);
+				if ('nav' in node)
+					items(escopo, node.nav.itens, `${at}.nav.itens`);
+				if ('zone' in node) zone(node.zone, `${at}.zone`);
+				if ('bar' in node) {
+					(['left', 'center', 'right'] as const).forEach((side) =>
+						list(escopo, node.bar[side], `${at}.bar.${side}`).forEach(
+							(item, j) => {
+								const bp = `${at}.bar.${side}[${j}]`;
+								if (!isBarItem(item)) {
+									invalid(escopo, bp, BAR_KEYS);
+								} else if ('slot' in item)
+									slot(escopo, item.slot, bp);
+								else if ('kind' in item) items(escopo, [item], bp);
+							},
+						),
+					);
+				}
+			}),
+		);
+	};
+
+	zone(manifest.root, 'root');
+	return violations;
+}
+
+/** 🔁 Itens do manifesto → TItemX (inválidos e não-arrays ignorados) */
+const toItems = (list: unknown): TItemX[] =>
+	Array.isArray(list) ?
+		list.filter((i) => has(i, 'kind')).map(toItem)
+	:	[];
+
+/** 🔁 Campos do item do manifesto → props do ButtonX */
+const toButton = ({
+	label,
+	caption,
+	ariaLabel,
+	icon,
+	href,
+	route,
+	match,
+	badge,
+	badgeLabel,
+	disabled,
+}: ILayoutItem): Omit<TButtonX, 'kind'> => ({
+	label,
+	caption,
+	ariaLabel,
+	icon,
+	href,
+	route,
+	match,
+	badge,
+	badgeLabel,
+	disabled,
+});
+
+/** 🔁 Item do manifesto → TItemX (ButtonX / MenuX) com rota ativa e prioridade na barra */
+const toItem = (item: ILayoutItem): TItemX => {
+	const { active, priority, collapseBelow } = item;
+	const entry =
+		item.kind === 'menu' || item.itens ?
+			Menu({
+				...toButton(item),
+				menuAlign: item.menuAlign,
+				openActive: item.openActive,
+				itens: toItems(item.itens),
+			})
+		:	Button(toButton(item));
+	return { ...entry, active, priority, collapseBelow };
+};
+
+/** 🔁 NavIcon do manifesto → props */
+const toNav = <T extends TLayoutNav>(nav: T) => ({
+	...nav,
+	itens: toItems(nav.itens),
+});
+
+/** 🔥 Componente LayoutManifest */
+export function LayoutManifest({
+	manifest,
+	slots = {},
+	...props
+}: ILayoutManifestProps) {
+	const scope = usePageZoneScope();
+
+	useReportViolations(
+		validateLayoutManifest(manifest, slots),
+		{
+			...scope.validation,
+			...((props.validation ?? manifest?.root?.validation) && {
+				level: props.validation ?? manifest.root.validation!,
+			}),
+			...(props.onViolation && { onViolation: props.onViolation }),
+		},
+		props.logger ?? scope.logger,
+	);
+	if (
+		manifest?.version !== LAYOUT_MANIFEST_VERSION ||
+		!isObject(manifest.root)
+	) {
+		return null;
+	}
+
+	/** Conteúdo do slot (vazio quando ausente) */
+	const fill = (name: string) => {
+		const content = slots[name];
+		return typeof content === 'function' ? content() : content;
+	};
+
+	const barItem = (
+		item: TLayoutBarItem,
+		i: number,
+	): TBarItem | JSX.Element | null => {
+		if ('slot' in item)
+			return <Fragment key={i}>{fill(item.slot)}</Fragment>;
+		if ('toggle' in item) {
+			return (
+				<NavToggle key={i} side={item.toggle} target={item.target} />
+			);
+		}
+		if ('crumbs' in item) return item;
+		if ('kind' in item) return toItem(item) as TBarItem;
+		return null;
+	};
+
+	const bar = ({ left, center, right, ...rest }: TLayoutBar) => {
+		const zone = (list?: TLayoutBarItem[]) =>
+			Array.isArray(list) ?
+				(list.filter(isBarItem).map(barItem).filter(Boolean) as (
+					| TBarItem
+					| JSX.Element
+				)[])
+			:	undefined;
+		return (
+			<HeaderBar
+				{...rest}
+				left={zone(left)}
+				center={zone(center)}
+				right={zone(right)}
+			/>
+		);
+	};
+
+	const node = (n: TLayoutNode, i: number) => {
+		if ('slot' in n)
+			return <Fragment key={i}>{fill(n.slot)}</Fragment>;
+		if ('text' in n) return n.text;
+		if ('bar' in n) return <Fragment key={i}>{bar(n.bar)}</Fragment>;
+		if ('nav' in n) return <NavIcon key={i} {...toNav(n.nav)} />;
+		if ('zone' in n)
+			return <Fragment key={i}>{zone(n.zone)}</Fragment>;
+		return null;
+	};
+
+	const nodes = (list?: TLayoutNode[]) =>
+		Array.isArray(list) ? list.filter(isNode).map(node) : undefined;
+
+	function zone(
+		{ left, right, header, content, footer, ...rest }: ILayoutZone,
+		root?: Partial<IPageZone>,
+	) {
+		const { children: headerNodes, ...headerProps } = header ?? {};
+		const { children: contentNodes, ...contentProps } = content ?? {};
+		const { children: footerNodes, ...footerProps } = footer ?? {};
+
+		return (
+			<PageZone
+				{...rest}
+				{...root}
+				left={left && toNav(left)}
+				right={right && toNav(right)}
+			>
+				{header && (
+					<HeaderZone {...headerProps}>
+						{nodes(headerNodes)}
+					</HeaderZone>
+				)}
+				<ContentWrapper {...contentProps}>
+					{nodes(contentNodes)}
+				</ContentWrapper>
+				{footer && (
+					<FooterZone {...footerProps}>
+						{nodes(footerNodes)}
+					</FooterZone>
+				)}
+			</PageZone>
+		);
+	}
+
+	return zone(manifest.root, props);
+}
+
+LayoutManifest.displayName = 'LayoutManifest';
@@ -29,10 +29,13 @@
  *   • `dropdown` → menu suspenso.
  *   • `vertical` → menu lateral.
  *   • `horizontal` → barra de ferramentas expansível.
- * - Alinhamento (menuAlign):
- *   • `left` (padrão)
- *   • `center`
- *   • `right` (apenas para dropdown)
+ *   • `flyout` → submenu lateral (automático para MenuX dentro de um painel vertical).
+ * - Alinhamento (menuAlign), herdado pelos submenus (item pode sobrescrever):
+ *   • `left` (padrão): dropdown alinhado à esquerda; flyout abre à direita, topo alinhado
+ *   • `center`: dropdown centralizado; flyout abre à direita, centralizado verticalmente
+ *   • `right`: dropdown alinhado à direita; flyout abre à esquerda
+ * - Posicionamento sensível às bordas: ao abrir, o painel que sairia da viewport
+ *   inverte o lado (`data-flip-x`) e/ou abre para cima (`data-flip-y`).
  *
  * @behavior
  * - Prioridades:
@@ -42,6 +45,24 @@
  * - Abertura e fechamento são controlados por input:hidden + label.
  * - Suporte a estado controlado externo (`checked`).
  * - Usa CSS puro para estados visuais e exibição (`peer-checked`).
+ * - Menu button (WAI-ARIA), com JS como melhoria progressiva:
+ *   • Gatilho: `role="button"`, `aria-haspopup="menu"`, `aria-expanded`, `aria-controls`
+ *   • Painel: `role="menu"` (rotulado pelo gatilho), itens `menuitem`, `li` `none`
+ *   • Enter/Espaço no gatilho abrem e focam o primeiro item
+ *   • Escape fecha o painel e devolve o foco ao gatilho
+ *   • `aria-expanded` acompanha o input:radio (inclusive quando outro menu do grupo abre)
+ * - Submenus (flyout), profundidade ilimitada:
+ *   • Abrem com hover (CSS, também sem JS), →, Enter/Espaço; fecham com ← ou Escape
+ *   • Cada painel forma o grupo dos seus submenus
+ * - Grupos (`group`): apenas um menu aberto por grupo, com escopo por `PageZone`.
+ *   • Padrão: a lista (`NavIcon`) que contém o menu; isolado → o próprio menu
+ * - Com JS: clicar no gatilho aberto fecha (toggle); clique fora, foco fora,
+ *   Escape ou ativação de um item também fecham. Sem JS, o radio apenas abre.
+ * - Rotas: com um item descendente ativo (ver `NavIcon`), abre ao montar e a cada
+ *   navegação (`openActive`) e expõe `data-active-child` no wrapper.
+ * - Adaptador de estado do escopo (`PageZone.state`, ver `StateAdapter`): a máquina
+ *   de menu assume gatilho, teclado, itens e dismiss; o radio segue espelhando o
+ *   estado (CSS) e o hover do flyout é mantido. Sem adaptador, vale o baseline acima.
  *
  * @props
  * - Herda todas as props de `ButtonX`, exceto `htmlFor`.
@@ -51,6 +72,8 @@
  * - `navClass`: classes adicionais aplicadas à lista (`ul`) do menu.
  * - `className`: classes do wrapper principal (`div`).
  * - `checked`: controla abertura inicial (opcional).
+ * - `openActive`: abre quando um item descendente casa com a rota atual (padrão true).
+ * - `group`: nome do grupo de menus mutuamente exclusivos.
  *
  * @style
  * - Arquitetura CSS:
@@ -68,9 +91,9 @@
  *   • Transições CSS-only
  *
  * @development
- * - Usa `guid()` para gerar IDs únicos.
+ * - Usa `guid()` para gerar IDs únicos, prefixados pelo namespace do `PageZoneScope`.
  * - Warnings e validações são na maioria responsabilidade do ButtonX/NavIcon.
- * - Mantém arquitetura declarativa, sem hooks de estado manual.
+ * - Mantém arquitetura declarativa; o estado JS apenas espelha o input:radio.
  * - Boas práticas:
  *   • Mensagens de log/warn/error via Logger
  *   • Manutenção git-friendly (evitar breaking changes)
@@ -88,69 +111,64 @@
  * @see {@link NavIcon} — Container dos itens do menu.
  */
 
-import { useRef } from 'preact/hooks';
+import {
+	useEffect,
+	useLayoutEffect,
+	useRef,
+	useState,
+} from 'preact/hooks';
 import { JSX } from 'preact';
 import { TButtonX, ButtonX } from '../ButtonX/ButtonX';
-import { NavIcon } from '../NavIcon/NavIcon';
+import { isRouteItemActive, NavIcon } from '../NavIcon/NavIcon';
 import { guid } from '@mod/jcemTS/src/ts/common/generic';
-import { tv, type VariantProps } from 'tailwind-variants';
+import { type VariantProps } from 'tailwind-variants';
+import {
+	menuContentVariants,
+	menuPanelClass,
+	variants,
+} from './MenuXVariants';
 import { twMerge } from 'tailwind-merge';
-import clsx from 'clsx';
 import {
 	getCaption,
 	resolveClassName,
 	TItemX,
 } from '@mod/jcemTS/src/ts/common/ui';
-import { HAS } from '@mod/jcemTS/src/ts/common/logicos';
+import { HAS, isTrue } from '@mod/jcemTS/src/ts/common/logicos';
+import { ownItems } from '@ts/hooks/useRovingFocus';
+import { useLocation } from '@ts/hooks/useLocation';
+import './MenuX.scss';
+import {
+	scopedId,
+	usePageZoneScope,
+} from '../PageZone/PageZoneScope';
+import { mergePartProps } from '../StateAdapter/StateAdapter';
+
+/** Atraso (ms) para fechar o flyout ao sair com o mouse */
+const HOVER_CLOSE_MS = 150;
 
 export interface IMenuX
 	extends Omit<TButtonX, 'htmlFor'>,
 		VariantProps<typeof variants> {
 	itens: TItemX[];
 	checked?: boolean;
+	openActive?: boolean;
+	group?: string;
 	navClass?: string | (() => string);
 	menuAlign?: 'left' | 'center' | 'right';
-	variant?: 'dropdown' | 'vertical' | 'horizontal';
+	variant?: 'dropdown' | 'vertical' | 'horizontal' | 'flyout';
 	className?: string | (() => string);
+	onClick?: JSX.MouseEventHandler<HTMLElement>;
 }
 
-const variants = tv({
-	base: 'menu-jcem-wrapper relative',
-	variants: {
-		variant: {
-			dropdown: 'dropdown',
-			vertical: '',
-			horizontal: '',
-		},
-		menuAlign: {
-			left: '',
-			center: 'dropdown-center',
-			right: 'dropdown-end',
-		},
-	},
-	defaultVariants: {
-		variant: 'dropdown',
-		menuAlign: 'left',
-	},
-});
-
-const menuContentVariants = tv({
-	base: 'z-[1] bg-base-100 shadow-lg rounded-box',
-	variants: {
-		variant: {
-			dropdown: 'dropdown-content',
-			vertical: 'flex flex-col',
-			horizontal: 'flex flex-row',
-		},
-	},
-});
-
 /** 🌟 Componente MenuX */
 export function MenuX({
 	escopo = 'global_menu',
 	itens,
 	checked,
+	openActive = true,
+	group,
 	navClass,
+	onClick,
 	menuAlign = 'left',
 	variant: variant = 'dropdown',
 	className,
@@ -161,7 +179,152 @@ export function MenuX({
 		delete props['label'];
 	}
 
-	const id = useRef(`menu-${guid(18)}`).current;
+	const scope = usePageZoneScope();
+	const id = useRef(scopedId(scope, `menu-${guid(18)}`)).current;
+	const triggerId = `${id}-trigger`;
+	const flyout = variant === 'flyout';
+	const panelId = `${id}-panel`;
+	const listId = `${panelId}-list`;
+
+	/** 🧭 Descendente na rota atual → abre o menu */
+	const path = useLocation(scope.location);
+	const activeChild = !!itens?.some((item) =>
+		isRouteItemActive(item, path),
+	);
+
+	/** Estado JS espelhando o input:radio (baseline CSS-only) */
+	const [open, setOpen] = useState(
+		isTrue(checked) || (openActive && activeChild),
+	);
+	useEffect(() => {
+		if (openActive && activeChild) setOpen(true);
+	}, [activeChild]);
+
+	/** ⚙️ Máquina de menu do adaptador (opcional) */
+	const binding = scope.state?.useMenu({
+		id,
+		open,
+		onOpenChange: setOpen,
+		ids: { trigger: triggerId, content: listId },
+	});
+	const radio = () =>
+		document.getElementById(id) as HTMLInputElement | null;
+	const trigger = () => document.getElementById(triggerId);
+	const focusFirst = () =>
+		requestAnimationFrame(() =>
+			ownItems(
+				document.querySelector(`#${CSS.escape(panelId)} > ul`),
+			)[0]?.focus(),
+		);
+
+	/** 🔁 Sincroniza com o grupo: só o radio recém-marcado dispara `change` */
+	useEffect(() => {
+		const sync = (e: Event) => {
+			const own = radio();
+			if (own && (e.target as HTMLInputElement)?.name === own.name) {
+				setOpen(own.checked);
+			}
+		};
+		document.addEventListener('change', sync);
+		return () => document.removeEventListener('change', sync);
+	}, [id]);
+
+	/** 🚪 Clique fora do menu fecha */
+	const root = useRef<HTMLDivElement>(null);
+	useEffect(() => {
+		if (!open || binding) return;
+		const onDown = (e: PointerEvent) => {
+			if (!root.current?.contains(e.target as Node)) setOpen(false);
+		};
+		document.addEventListener('pointerdown', onDown);
+		return () => document.removeEventListener('pointerdown', onDown);
+	}, [open]);
+
+	/** 🚪 Foco saindo do menu fecha */
+	const onFocusOut = (e: FocusEvent) => {
+		const next = e.relatedTarget as Node | null;
+		if (open && next && !root.current?.contains(next)) setOpen(false);
+	};
+
+	/** 🔀 Toggle no gatilho (flyout permanece aberto: abre por hover) */
+	const onTriggerClick = (e: JSX.TargetedMouseEvent<HTMLElement>) => {
+		onClick?.call(e.currentTarget, e);
+		// Com adaptador, a máquina alterna: o label não marca o radio
+		if (binding) return e.preventDefault();
+		if (open && !flyout) {
+			e.preventDefault();
+			setOpen(false);
+		}
+	};
+
+	/** ✅ Ativar um item (não submenu) do próprio painel fecha e devolve o foco */
+	const onPanelClick = (e: MouseEvent) => {
+		const item = (e.target as HTMLElement).closest(
+			'[role="menuitem"]',
+		);
+		if (
+			open &&
+			item &&
+			!item.hasAttribute('aria-haspopup') &&
+			document.getElementById(panelId)?.contains(item)
+		) {
+			setOpen(false);
+			trigger()?.focus();
+		}
+	};
+
+	/** 📐 Inverte lado/direção quando o painel aberto sairia da viewport */
+	const [flip, setFlip] = useState({ x: false, y: false });
+	useLayoutEffect(() => {
+		if (!open) return setFlip({ x: false, y: false });
+		const panel = document.getElementById(panelId);
+		if (!panel) return;
+		const r = panel.getBoundingClientRect();
+		setFlip({
+			x: r.right > window.innerWidth || r.left < 0,
+			y: r.bottom > window.innerHeight && r.height < r.top,
+		});
+	}, [open]);
+
+	/** 🖱️ Flyout: abre no hover, fecha ao sair (com tolerância) */
+	const hoverTimer = useRef<ReturnType<typeof setTimeout>>();
+	const onMouseEnter = () => {
+		clearTimeout(hoverTimer.current);
+		if (flyout && !open) radio()?.click();
+	};
+	const onMouseLeave = () => {
+		if (!flyout) return;
+		hoverTimer.current = setTimeout(
+			() => setOpen(false),
+			HOVER_CLOSE_MS,
+		);
+	};
+	useEffect(() => () => clearTimeout(hoverTimer.current), []);
+
+	/** ⌨️ Enter/Espaço abrem; Escape (ou ← no flyout) fecha e devolve o foco */
+	const onKeyDown = (e: KeyboardEvent) => {
+		const inside = e.target !== trigger();
+		if (
+			open &&
+			(e.key === 'Escape' ||
+				(flyout && inside && e.key === 'ArrowLeft'))
+		) {
+			e.preventDefault();
+			e.stopPropagation();
+			setOpen(false);
+			trigger()?.focus();
+			return;
+		}
+		if (
+			e.target === trigger() &&
+			(e.key === 'Enter' || e.key === ' ')
+		) {
+			e.preventDefault();
+			e.stopPropagation();
+			if (!open) radio()?.click();
+			focusFirst();
+		}
+	};
 
 	/** 🎨 Classes do wrapper */
 	const wrapperClass = variants({
@@ -179,21 +342,43 @@ export function MenuX({
 		resolveClassName(navClass),
 	);
 
-	/** 🎨 Classes do wrapper da NavIcon (menu flutuante) */
-	const navWrapperClass = clsx(
-		'peer-checked:block hidden absolute',
-		variant === 'dropdown' && 'mt-1',
-		variant === 'horizontal' && 'ml-1',
-	);
-
 	if (!itens?.length) {
-		console.warn(`MenuX (${escopo}) criado sem itens.`);
+		scope.logger.warn(`MenuX (${escopo}) criado sem itens.`);
 	}
 
 	return (
-		<div data-menu={id} className={wrapperClass}>
+		<div
+			ref={root}
+			data-menu={id}
+			data-open={open || undefined}
+			data-active-child={activeChild || undefined}
+			data-variant={variant}
+			data-align={menuAlign}
+			data-flip-x={flip.x || undefined}
+			data-flip-y={flip.y || undefined}
+			className={wrapperClass}
+			onMouseEnter={onMouseEnter}
+			onMouseLeave={onMouseLeave}
+			{...(!binding && {
+				onKeyDown,
+				onFocusOut,
+				onClick: onPanelClick,
+			})}
+		>
 			<ButtonX
-				{...(props as TButtonX)}
+				{...(mergePartProps(
+					{
+						role: 'button',
+						tabIndex: 0,
+						...props,
+						id: triggerId,
+						'aria-haspopup': 'menu',
+						'aria-expanded': open,
+						'aria-controls': panelId,
+						onClick: onTriggerClick,
+					},
+					binding?.trigger,
+				) as TButtonX)}
 				htmlFor={id}
 				escopo={escopo}
 				className={twMerge(
@@ -203,16 +388,26 @@ export function MenuX({
 			/>
 
 			<NavIcon
+				id={panelId}
+				labelledBy={triggerId}
 				menuId={id}
+				menuGroup={group ?? id}
 				escopo={escopo}
+				menuAlign={menuAlign}
 				behavior="menu"
 				orientation={
 					variant === 'horizontal' ? 'horizontal' : 'vertical'
 				}
 				itens={itens}
-				opened={checked}
+				opened={open}
 				ulClass={navUlClass}
-				wrapperClass={navWrapperClass}
+				wrapperClass={menuPanelClass(variant)}
+				{...(binding && {
+					keyboard: false,
+					ulProps: binding.content,
+					itemProps: (item: TButtonX, idx: number) =>
+						binding.item(`${idx}`, isTrue(item.disabled)),
+				})}
 			/>
 		</div>
 	);
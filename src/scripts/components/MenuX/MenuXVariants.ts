@@ -0,0 +1,56 @@
+/**
+ * MenuXVariants — Variantes visuais do MenuX.
+ *
+ * @description
+ * Classes do componente sem dependência de Preact: compartilhadas pelo
+ * componente e pelo renderizador vanilla (`@ts/vanilla`), garantindo a
+ * mesma saída de classes em ambos.
+ *
+ * @see {@link MenuX}
+ */
+import { tv } from 'tailwind-variants';
+import clsx from 'clsx';
+
+export const variants = tv({
+	base: 'menu-jcem-wrapper relative',
+	variants: {
+		variant: {
+			dropdown: 'dropdown',
+			vertical: '',
+			horizontal: '',
+			flyout: 'w-full',
+		},
+		menuAlign: {
+			left: '',
+			center: 'dropdown-center',
+			right: 'dropdown-end',
+		},
+	},
+	defaultVariants: {
+		variant: 'dropdown',
+		menuAlign: 'left',
+	},
+});
+
+export const menuContentVariants = tv({
+	base: 'z-[1] bg-base-100 shadow-lg rounded-box',
+	variants: {
+		variant: {
+			dropdown: 'dropdown-content',
+			vertical: 'flex flex-col',
+			horizontal: 'flex flex-row',
+			flyout: 'flex flex-col',
+		},
+	},
+});
+
+/** 🎨 Classes do wrapper da NavIcon (menu flutuante) */
+export const menuPanelClass = (
+	variant: 'dropdown' | 'vertical' | 'horizontal' | 'flyout',
+) =>
+	clsx(
+		'peer-checked:block peer-checked:visible peer-checked:opacity-100 hidden absolute',
+		variant === 'dropdown' && 'mt-1',
+		variant === 'horizontal' && 'ml-1',
+		variant === 'flyout' && 'z-[2]',
+	);
@@ -0,0 +1,82 @@
+import { h, render } from 'preact';
+import { act } from 'preact/test-utils';
+import { afterEach, describe, expect, it } from 'vitest';
+import { ownItems } from '@ts/ownItems';
+import { mount, NavIcon as DomNavIcon } from '@ts/vanilla';
+import { Button, NavIcon } from './NavIcon';
+
+const itens = [
+	Button({ caption: 'Início', ariaLabel: 'Início' }),
+	Button({
+		caption: 'Fixar',
+		ariaLabel: 'Fixar',
+		defaultPressed: false,
+	}),
+	Button({ caption: 'Sair', ariaLabel: 'Sair' }),
+];
+
+const press = (key: string) =>
+	act(() => {
+		document.activeElement?.dispatchEvent(
+			new KeyboardEvent('keydown', { key, bubbles: true }),
+		);
+	});
+
+describe('NavIcon — teclado com item toggle', () => {
+	let root: HTMLElement;
+
+	afterEach(() => {
+		render(null, root);
+		root.remove();
+	});
+
+	const setup = () => {
+		root = document.body.appendChild(document.createElement('div'));
+		act(() => {
+			render(h(NavIcon, { itens, overflow: 'none' }), root);
+		});
+		return ownItems(root.querySelector('ul'));
+	};
+
+	it('o input oculto do toggle não é item navegável', () => {
+		const items = setup();
+
+		expect(items).toHaveLength(3);
+		expect(items.some((el) => el.tagName === 'INPUT')).toBe(false);
+		expect(items[1].getAttribute('aria-pressed')).toBe('false');
+	});
+
+	it('setas e Home/End percorrem apenas os botões visíveis', () => {
+		const [first, toggle, last] = setup();
+
+		expect(first.tabIndex).toBe(0);
+		expect(toggle.tabIndex).toBe(-1);
+
+		act(() => first.focus());
+		press('ArrowDown');
+		expect(document.activeElement).toBe(toggle);
+
+		press('ArrowDown');
+		expect(document.activeElement).toBe(last);
+
+		press('ArrowDown');
+		expect(document.activeElement).toBe(first);
+
+		press('End');
+		expect(document.activeElement).toBe(last);
+
+		press('ArrowUp');
+		expect(document.activeElement).toBe(toggle);
+		expect(toggle.tabIndex).toBe(0);
+	});
+
+	it('renderizador vanilla: o toggle expõe o label como item', () => {
+		root = document.body.appendChild(document.createElement('div'));
+		const view = mount(root, DomNavIcon, { itens });
+		const items = ownItems(root.querySelector('ul'));
+
+		expect(items.map((el) => el.tagName)).not.toContain('INPUT');
+		expect(items[1].getAttribute('aria-pressed')).toBe('false');
+		view.destroy();
+	});
+});
@@ -45,6 +45,10 @@
  *   • fixa: definida arbitratiamente (mas responsiva).
  *   • minima: ajusta ao conteúdo.
  * - Overflow: Nunca usa scrollbar → cria submenus ou colapsa.
+ *   • `overflow="fold"`: itens finais que excedem a altura (vertical) ou largura
+ *     (horizontal) são dobrados em um `MenuX` "Mais" gerado automaticamente
+ *   • Itens ativos (`active` / `aria-current` / rota atual) nunca são dobrados
+ *   • Recalcula ao redimensionar (`ResizeObserver`) e ao mudar `itens`
  *
  * @behavior
  * - Prioridades:
@@ -54,11 +58,22 @@
  * - Suporte a controle de abertura/fechamento por `input:radio`.
  * - Abertura baseada em `menuId` + `checked`.
  * - Suporte a controle externo (`opened`).
+ * - Recolhimento (`collapsible`) por `input:checkbox` (`toggleId`), com modos:
+ *   • controlado: `expanded` + `onExpandedChange`
+ *   • não controlado: `defaultExpanded` (padrão `!compact`)
+ *   • estado refletido em `data-expanded` no wrapper
  * - Sincroniza estado via `data-*` e `peer-checked`.
  * - Permite nesting ilimitado com `MenuX`.
+ * - Rotas: itens com `href`/`route` casam com a localização do escopo (`match`:
+ *   exact | prefix | função; origem: `PageZone.location`, ver `useLocation`):
+ *   • item ativo → `aria-current="page"` + `btn-active`
+ *   • `MenuX` com descendente ativo abre (ver `openActive`)
+ * - Teclado (`keyboard`, padrão true): roving tabindex (uma parada de Tab por lista),
+ *   setas conforme `orientation`, Home/End, type-ahead pela legenda e entrada
+ *   nos painéis de `MenuX` aninhados (ver `useRovingFocus`).
  *
  * @props
- * - `itens`: array de `ButtonX` ou `MenuX`.
+ * - `itens`: array de `ButtonX` ou `MenuX` (com `href`/`route` + `match` opcionais).
  * - `escopo`: string (define o namespace dos dados e classes).
  * - `menuId`: string (id opcional para controle por input:radio).
  * - `opened`: boolean (força estado aberto/fechado).
@@ -66,6 +81,15 @@
  * - `behavior`: 'toolbar' | 'menu' | 'header'.
  * - `ulClass`: classes aplicadas ao ul (lista dos itens).
  * - `wrapperClass`: classes aplicadas ao wrapper principal.
+ * - `expanded` / `defaultExpanded` / `onExpandedChange`: estado de recolhimento.
+ * - `toggleId`: id do checkbox de recolhimento (alvo de `label[for]`).
+ * - `menuGroup`: grupo do input:radio de `menuId` (um menu aberto por grupo, por PageZone).
+ * - `menuAlign`: alinhamento herdado pelos submenus (`behavior="menu"`).
+ * - `labelledBy`: id do gatilho que rotula a lista (`behavior="menu"` → `role="menu"`).
+ * - `keyboard`: boolean (padrão true; false quando o contêiner gerencia o foco, ex.: HeaderBar).
+ * - `ulProps` / `itemProps`: props de parte do adaptador de estado (ver `StateAdapter`)
+ *   mescladas ao ul e aos itens `ButtonX` (submenus mantêm o próprio estado).
+ * - `overflow`: 'fold' | 'none' (padrão 'fold'; 'none' quando `behavior="menu"`).
  * - `className`: classes adicionais ao wrapper principal.
  *
  * @style
@@ -81,7 +105,7 @@
  *   • Transições CSS-only
  *
  * @development
- * - Gera ids únicos via `guid()`.
+ * - Gera ids únicos via `guid()`, prefixados pelo namespace do `PageZoneScope`.
  * - Mantém consistência total com `ButtonX` e `MenuX`.
  * - Usa helper `resolveClassName()` para tratamento de classes.
  * - Boas práticas:
@@ -104,8 +128,15 @@
 import { ButtonX, TButtonX } from '../ButtonX/ButtonX';
 import { JSX } from 'preact';
 import { guid } from '@mod/jcemTS/src/ts/common/generic';
-import { useRef } from 'preact/hooks';
-import { tv } from 'tailwind-variants';
+import {
+	useEffect,
+	useLayoutEffect,
+	useRef,
+	useState,
+} from 'preact/hooks';
+import { useControllable } from '@ts/hooks/useControllable';
+import { ownItems, useRovingFocus } from '@ts/hooks/useRovingFocus';
+import { navIconVariants } from './NavIconVariants';
 import { twMerge } from 'tailwind-merge';
 import { IMenuX, MenuX } from '../MenuX/MenuX';
 import {
@@ -115,14 +146,25 @@ import {
 	TItemX,
 } from '@mod/jcemTS/src/ts/common/ui';
 import { isTrue } from '@mod/jcemTS/src/ts/common/logicos';
+import { isRouteActive, useLocation } from '@ts/hooks/useLocation';
+import {
+	scopedId,
+	usePageZoneScope,
+} from '../PageZone/PageZoneScope';
+import {
+	mergePartProps,
+	TPartProps,
+} from '../StateAdapter/StateAdapter';
+import './NavIcon.scss';
 
 /** Type guard para diferenciar MenuX */
-function isMenu(
-	item: TItemX,
-): item is Extract<TItemX, { kind: 'menu' }> {
+function isMenu(item: TItemX): item is TItemX & IMenuX {
 	return item.kind === 'menu' || 'itens' in item;
 }
 
+/** Props de item lidas pelo NavIcon (rota, estado ativo) */
+type TNavItemProps = TButtonX & { active?: boolean | string };
+
 export const Button = (props: Omit<TButtonX, 'kind'>): TItemX =>
 	({
 		...props,
@@ -150,84 +192,98 @@ export interface INavIcon
 	as?: any;
 	compact?: boolean;
 	collapsible?: boolean;
+	expanded?: boolean;
+	defaultExpanded?: boolean;
+	onExpandedChange?: (expanded: boolean) => void;
+	toggleId?: string;
+	overflow?: 'fold' | 'none';
+	keyboard?: boolean;
+	labelledBy?: string;
+	menuAlign?: IMenuX['menuAlign'];
+	menuGroup?: string;
+	ulProps?: TPartProps;
+	itemProps?: (item: TButtonX, index: number) => TPartProps;
 }
 
-/** Variantes visuais */
-const navIconVariants = tv({
-	slots: {
-		aside: 'inav-jcem transition-all duration-200',
-		ul: '',
-		li: '',
-	},
-	variants: {
-		behavior: {
-			toolbar: {
-				aside: 'bg-base-100 rounded-lg p-1',
-				ul: 'flex',
-				li: 'w-full',
-			},
-			menu: {
-				aside: 'absolute z-50',
-				ul: 'menu bg-base-100 p-2 rounded-box',
-				li: '',
-			},
-			header: {
-				aside: 'flex items-center',
-				ul: 'flex',
-				li: '',
-			},
-		},
-		orientation: {
-			vertical: {
-				aside: 'flex flex-col',
-				ul: 'flex flex-col gap-1 w-full',
-				li: 'w-full',
-			},
-			horizontal: {
-				aside: 'flex flex-row',
-				ul: 'flex flex-row gap-2 items-center',
-				li: '',
-			},
-		},
-		opened: {
-			true: {
-				aside: 'opacity-100 visible',
-			},
-			false: {
-				aside: 'opacity-0 invisible absolute',
-			},
-		},
-		compact: {
-			true: {
-				aside: 'menu-compact',
-				ul: 'gap-0',
-				li: '[&_.btn]:justify-center [&_.btn]:px-2',
-			},
-			false: {
-				aside: '',
-				ul: '',
-				li: '',
-			},
-		},
-		collapsible: {
-			true: {
-				aside: 'overflow-hidden',
-				ul: 'transition-all duration-300',
-			},
-			false: {
-				aside: '',
-				ul: '',
-			},
-		},
-	},
-	defaultVariants: {
-		behavior: 'toolbar',
-		orientation: 'vertical',
-		opened: true,
-		compact: false,
-		collapsible: false,
-	},
-});
+/** 🧭 Item (ou submenu com descendente) cuja rota casa com a localização */
+export const isRouteItemActive = (
+	item: TItemX,
+	location: string,
+): boolean =>
+	isMenu(item) ?
+		!!item.itens?.some((i: TItemX) => isRouteItemActive(i, location))
+	:	isRouteActive(item as TNavItemProps, location);
+
+/** 🧠 Item ativo (permanece visível no overflow) */
+const isActive = (item: TItemX, location: string) => {
+	const { active, 'aria-current': current } = item as TNavItemProps;
+	return (
+		isTrue(active) || !!current || isRouteItemActive(item, location)
+	);
+};
+
+/** 📐 Dobra itens finais que excedem o eixo principal do wrapper */
+function useOverflowFold(
+	wrapper: { current: HTMLElement | null },
+	list: { current: HTMLElement | null },
+	itens: TItemX[],
+	vertical: boolean,
+	enabled: boolean,
+	location: string,
+) {
+	const [folded, setFolded] = useState(0);
+
+	/** Candidatos: do último para o primeiro, exceto ativos */
+	const order = itens
+		.map((item, i) => ({ item, i }))
+		.filter(({ item }) => !isActive(item, location))
+		.reverse()
+		.map(({ i }) => i);
+
+	/** Espaço livre no eixo principal (descontado o padding) */
+	const overflows = () => {
+		const el = wrapper.current;
+		const ul = list.current;
+		if (!el || !ul) return false;
+		const css = getComputedStyle(el);
+		const available =
+			vertical ?
+				el.clientHeight -
+				parseFloat(css.paddingTop) -
+				parseFloat(css.paddingBottom)
+			:	el.clientWidth -
+				parseFloat(css.paddingLeft) -
+				parseFloat(css.paddingRight);
+		const used = vertical ? ul.offsetHeight : ul.offsetWidth;
+		return used > available + 1;
+	};
+
+	/** 📏 Dobra mais um item enquanto houver overflow */
+	useLayoutEffect(() => {
+		if (enabled && folded < order.length && overflows()) {
+			setFolded(folded + 1);
+		}
+	});
+
+	/** 🔁 Recalcula do zero quando itens ou o eixo principal mudam */
+	useEffect(() => {
+		setFolded(0);
+		const el = wrapper.current;
+		if (!enabled || !el || typeof ResizeObserver === 'undefined')
+			return;
+		const size = () => (vertical ? el.clientHeight : el.clientWidth);
+		let last = size();
+		const observer = new ResizeObserver(() => {
+			if (size() === last) return;
+			last = size();
+			setFolded(0);
+		});
+		observer.observe(el);
+		return () => observer.disconnect();
+	}, [itens, vertical, enabled, location]);
+
+	return new Set(enabled ? order.slice(0, folded) : []);
+}
 
 /** 🔥 Componente NavIcon */
 export function NavIcon<T extends HtmlTag>({
@@ -243,23 +299,78 @@ export function NavIcon<T extends HtmlTag>({
 	className,
 	compact = false,
 	collapsible = false,
+	expanded,
+	defaultExpanded,
+	onExpandedChange,
+	toggleId,
+	overflow = behavior === 'menu' ? 'none' : 'fold',
+	keyboard = true,
+	labelledBy,
+	menuAlign,
+	menuGroup,
+	ulProps,
+	itemProps,
 	...props
 }: INavIcon) {
 	const Tag = HTML_TAGS.includes(as) ? as : 'section';
-	const cid = useRef(menuId ?? `inav-${guid(18)}`).current;
+	const scope = usePageZoneScope();
+	const cid = useRef(
+		menuId ?? scopedId(scope, `inav-${guid(18)}`),
+	).current;
+	const path = useLocation(scope.location);
+
+	/** Estado de recolhimento (controlado ou não) */
+	const [isExpanded, setExpanded] = useControllable(
+		expanded,
+		defaultExpanded ?? !isTrue(compact),
+		onExpandedChange,
+	);
+	const collapseId = toggleId ?? `${cid}-compact`;
+
+	/** Overflow → MenuX "Mais" com os itens dobrados */
+	const wrapperRef = useRef<HTMLElement>(null);
+	const listRef = useRef<HTMLUListElement>(null);
+	const folded = useOverflowFold(
+		wrapperRef,
+		listRef,
+		itens,
+		orientation === 'vertical',
+		overflow === 'fold',
+		path,
+	);
+	const shown =
+		folded.size ?
+			[
+				...itens.filter((_, i) => !folded.has(i)),
+				Menu({
+					icon: 'fas ellipsis',
+					caption: 'Mais',
+					ariaLabel: `Mais ${folded.size} itens`,
+					escopo: `${escopo}-more`,
+					itens: itens.filter((_, i) => folded.has(i)),
+				}),
+			]
+		:	itens;
+
+	/** ⌨️ Roving tabindex na própria lista */
+	const onKeyDown = useRovingFocus(
+		listRef,
+		() => ownItems(listRef.current),
+		orientation,
+		keyboard,
+	);
 
 	const { aside, ul, li } = navIconVariants({
 		behavior,
 		orientation,
 		opened: isTrue(opened),
-		compact: isTrue(compact),
+		compact: collapsible ? !isExpanded : isTrue(compact),
 		collapsible: isTrue(collapsible),
 	});
 
 	/** Renderiza cada item */
 	const renderItem = (item: TItemX, idx: number) => {
 		const commonProps = {
-			key: `${cid}-item-${idx}`,
 			className: twMerge(
 				li(),
 				'w-full text-left flex items-center',
@@ -267,21 +378,42 @@ export function NavIcon<T extends HtmlTag>({
 				resolveClassName(item.className),
 			),
 			...(collapsible && { 'data-collapsable': '' }),
+			...(behavior === 'menu' && { role: 'menuitem' }),
 		};
 
+		/** Menus da lista formam um grupo (um aberto por vez); em painel vertical viram flyout */
+		const flyout = behavior === 'menu' && orientation === 'vertical';
 		const content =
 			isMenu(item) ?
 				<MenuX
 					{...commonProps}
+					group={cid}
+					{...(behavior === 'menu' && { menuAlign })}
 					{...item}
 					variant={
-						orientation === 'horizontal' ? 'horizontal' : 'dropdown'
+						orientation === 'horizontal' ? 'horizontal'
+						: flyout ?
+							'flyout'
+						:	'dropdown'
 					}
 				/>
-			:	<ButtonX {...commonProps} {...(item as TButtonX)} />;
+			:	<ButtonX
+					{...mergePartProps(
+						{ ...commonProps, ...(item as TButtonX) },
+						itemProps?.(item as TButtonX, idx),
+					)}
+					{...(isRouteItemActive(item, path) && {
+						'aria-current': 'page',
+						className: twMerge(commonProps.className, 'btn-active'),
+					})}
+				/>;
 
 		return (
-			<li key={`${cid}-li-${idx}`} className={li()}>
+			<li
+				key={`${cid}-li-${idx}`}
+				className={li()}
+				role={behavior === 'menu' ? 'none' : undefined}
+			>
 				{content}
 			</li>
 		);
@@ -292,7 +424,11 @@ export function NavIcon<T extends HtmlTag>({
 			{menuId && (
 				<input
 					type="radio"
-					name={escopo}
+					name={
+						menuGroup ?
+							scopedId(scope, `menu-group-${menuGroup}`)
+						:	scopedId(scope, escopo)
+					}
 					id={cid}
 					className="hidden peer"
 					checked={isTrue(opened)}
@@ -302,15 +438,22 @@ export function NavIcon<T extends HtmlTag>({
 			{collapsible && (
 				<input
 					type="checkbox"
-					id={`${cid}-compact`}
-					className="hidden peer/compact"
-					checked={isTrue(compact)}
+					id={collapseId}
+					className="hidden peer/compact inav-jcem-collapse"
+					checked={!isExpanded}
+					onChange={(e) => {
+						const next = !e.currentTarget.checked;
+						// Mantém o DOM fiel ao estado até o re-render (modo controlado)
+						e.currentTarget.checked = !isExpanded;
+						setExpanded(next);
+					}}
 				/>
 			)}
 
 			<Tag
 				{...(menuId ? { 'data-menu': cid } : { 'data-inav': cid })}
 				{...props}
+				ref={wrapperRef}
 				className={twMerge(
 					aside(),
 					collapsible && 'peer',
@@ -319,15 +462,30 @@ export function NavIcon<T extends HtmlTag>({
 					resolveClassName(className),
 				)}
 				data-navicon={cid}
+				data-scope={scope.ns || undefined}
+				data-expanded={collapsible ? String(isExpanded) : undefined}
+				data-folded={folded.size || undefined}
 			>
 				<ul
+					ref={listRef}
+					{...mergePartProps(
+						{
+							onKeyDown,
+							...(behavior === 'menu' && {
+								role: 'menu',
+								'aria-labelledby': labelledBy,
+								'aria-orientation': orientation,
+							}),
+						},
+						ulProps,
+					)}
 					className={twMerge(
 						ul(),
 						collapsible && 'peer-checked/compact:[&_.btn]:px-3',
 						resolveClassName(ulClass),
 					)}
 				>
-					{itens.map(renderItem)}
+					{shown.map(renderItem)}
 				</ul>
 			</Tag>
 		</>
@@ -0,0 +1,88 @@
+/**
+ * NavIconVariants — Variantes visuais do NavIcon.
+ *
+ * @description
+ * Classes do componente sem dependência de Preact: compartilhadas pelo
+ * componente e pelo renderizador vanilla (`@ts/vanilla`), garantindo a
+ * mesma saída de classes em ambos.
+ *
+ * @see {@link NavIcon}
+ */
+import { tv } from 'tailwind-variants';
+
+/** Variantes visuais */
+export const navIconVariants = tv({
+	slots: {
+		aside: 'inav-jcem transition-all duration-200',
+		ul: '',
+		li: '',
+	},
+	variants: {
+		behavior: {
+			toolbar: {
+				aside: 'bg-base-100 rounded-lg p-1',
+				ul: 'flex',
+				li: 'w-full',
+			},
+			menu: {
+				aside: 'absolute z-50',
+				ul: 'menu bg-base-100 p-2 rounded-box',
+				li: '',
+			},
+			header: {
+				aside: 'flex items-center',
+				ul: 'flex',
+				li: '',
+			},
+		},
+		orientation: {
+			vertical: {
+				aside: 'flex flex-col',
+				ul: 'flex flex-col gap-1 w-full',
+				li: 'w-full',
+			},
+			horizontal: {
+				aside: 'flex flex-row',
+				ul: 'flex flex-row gap-2 items-center',
+				li: '',
+			},
+		},
+		opened: {
+			true: {
+				aside: 'opacity-100 visible',
+			},
+			false: {
+				aside: 'opacity-0 invisible absolute',
+			},
+		},
+		compact: {
+			true: {
+				aside: 'menu-compact',
+				ul: 'gap-0',
+				li: '[&_.btn]:justify-center [&_.btn]:px-2',
+			},
+			false: {
+				aside: '',
+				ul: '',
+				li: '',
+			},
+		},
+		collapsible: {
+			true: {
+				aside: 'overflow-hidden',
+				ul: 'transition-all duration-300',
+			},
+			false: {
+				aside: '',
+				ul: '',
+			},
+		},
+	},
+	defaultVariants: {
+		behavior: 'toolbar',
+		orientation: 'vertical',
+		opened: true,
+		compact: false,
+		collapsible: false,
+	},
+});
@@ -0,0 +1,136 @@
+/**
+ * NavToggle — ButtonX que expande/recolhe um NavIcon lateral do PageZone.
+ *
+ * @description
+ * Botão (hambúrguer por padrão) que alterna o estado expandido/recolhido
+ * da navegação `left` ou `right` do `PageZone` mais próximo. Pode ser
+ * colocado em qualquer zona do `HeaderBar` ou em conteúdo livre.
+ *
+ * @structure
+ * ```
+ * [NavToggle]
+ *  └── [ButtonX] (label[for] → checkbox de recolhimento do NavIcon)
+ * ```
+ *
+ * @integration
+ * - Compatível com:
+ *   • `PageZone` (lê `PageZoneNav`)
+ *   • `HeaderBar` (como item JSX de `left`/`center`/`right`)
+ * - Sem `NavIcon` `collapsible` no lado indicado, não renderiza nada.
+ *
+ * @behavior
+ * - Prioridades:
+ *   1. Acessibilidade (aria-label quando aplicável)
+ *   2. Consistência visual (estados :hover, :active , ..., via CSS)
+ *   3. Performance (zero JS para estado/animações/transições)
+ * - Sem JS: `label[for]` alterna o checkbox do NavIcon (CSS-only).
+ * - Com JS: `aria-expanded`/`aria-controls` refletem o estado do PageZone.
+ * - Com adaptador de estado (`PageZone.state`): gatilho da máquina do lado
+ *   (collapsible ou dialog da gaveta); o `label[for]` não alterna o checkbox.
+ *
+ * @props
+ * - Herda todas as props de `ButtonX`, exceto `htmlFor`.
+ * - `side`: 'left' | 'right' (padrão 'left').
+ * - `target`: 'collapse' (recolhe o NavIcon, padrão) | 'drawer' (abre a gaveta off-canvas;
+ *   visível somente abaixo de `drawerBelow`).
+ *
+ * @development
+ * - Boas práticas:
+ *   • Mensagens de log/warn/error via Logger
+ *   • Manutenção git-friendly (evitar breaking changes)
+ *   • Comentário de uma única linha preferíveis, exceto quando para jsDoc
+ *
+ * @dependencies
+ * - ButtonX
+ * - PageZone (PageZoneNav)
+ * - Preact + Vite (core)
+ *
+ * @see {@link ButtonX}
+ * @see {@link PageZone}
+ */
+import { ButtonX, TButtonX } from '../ButtonX/ButtonX';
+import { TNavSide, usePageZoneNav } from '../PageZone/PageZoneNav';
+import { usePageZoneScope } from '../PageZone/PageZoneScope';
+import {
+	mergePartProps,
+	TPartProps,
+} from '../StateAdapter/StateAdapter';
+
+/** Props do NavToggle */
+export type TNavToggle = Omit<TButtonX, 'htmlFor'> & {
+	side?: TNavSide;
+	target?: 'collapse' | 'drawer';
+};
+
+/** 🍔 Componente NavToggle */
+export function NavToggle({
+	side = 'left',
+	target = 'collapse',
+	icon = 'fas bars',
+	ariaLabel,
+	compact = true,
+	...props
+}: TNavToggle) {
+	const navs = usePageZoneNav();
+	const nav = navs[side];
+	const { logger } = usePageZoneScope();
+	const drawer = target === 'drawer';
+
+	/** ⚙️ Gatilho da máquina do adaptador: a máquina alterna, o label não */
+	const bound = (part?: TPartProps) =>
+		mergePartProps(
+			props,
+			part && {
+				...part,
+				onClick: (e: Event) => {
+					part.onClick?.(e);
+					e.preventDefault();
+				},
+			},
+		) as typeof props;
+
+	if (drawer && nav && navs.drawer) {
+		return (
+			<ButtonX
+				{...bound(nav.dialog?.trigger)}
+				icon={icon}
+				compact={compact}
+				htmlFor={nav.drawerId}
+				ariaLabel={
+					ariaLabel ??
+					`Abrir navegação ${side === 'left' ? 'esquerda' : 'direita'}`
+				}
+				aria-controls={nav.navId}
+				aria-expanded={nav.drawerOpen}
+				data-drawer-toggle={navs.drawer.below}
+			/>
+		);
+	}
+
+	if (!nav?.collapsible || drawer) {
+		logger.warn(
+			drawer ?
+				`[NavToggle] PageZone sem \`drawerBelow\` ou sem NavIcon "${side}".`
+			:	`[NavToggle] Nenhum NavIcon "${side}" com \`collapsible\` no PageZone para alternar.`,
+		);
+		return null;
+	}
+
+	return (
+		<ButtonX
+			{...bound(nav.collapse?.trigger)}
+			icon={icon}
+			compact={compact}
+			htmlFor={nav.toggleId}
+			ariaLabel={
+				ariaLabel ??
+				`Alternar navegação ${side === 'left' ? 'esquerda' : 'direita'}`
+			}
+			aria-controls={nav.navId}
+			aria-expanded={nav.expanded}
+			data-nav-toggle={side}
+		/>
+	);
+}
+
+NavToggle.displayName = 'NavToggle';
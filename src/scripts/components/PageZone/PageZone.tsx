@@ -98,6 +98,8 @@
  *   • padding reduzido
  * - Escopo (`escopo`):
  *   • Gera classes específicas como `pagezone-jcem-{escopo}`
+ *   • Aninhado: namespace `{pai}__{escopo}` em classes, `data-escopo` e ids
+ *   • Configuração herdável via `PageZoneScope` (tema, ícones, localização, logger, densidade, validação)
  * - Responsivo e adaptável.
  * - Ocupa 100% do espaço pai, com controle de padding, borda e sombra.
  *
@@ -122,6 +124,21 @@
  * - `escopo`: string (namespace para classes e data attributes)
  * - `classPart`: string extra para composição de classe
  * - `className`: string, função ou signal
+ * - `validation`: off | warn | error | strict (herdado do PageZone ancestral; padrão warn, strict opt-in)
+ * - `onViolation`: callback por diagnóstico (`IPageZoneViolation`)
+ * - `theme`, `icons`, `logger`, `density`: overrides do escopo (herdados quando ausentes)
+ * - `icons`: `IIconProvider`, renderizador legado ou lista; encadeado antes do provider
+ *   herdado (fallback final: placeholder + warning, ver `IconProvider`)
+ * - `location`: origem da localização dos itens com rota (`historyLocation` padrão,
+ *   `hashLocation` ou `routerLocation`; ver `useLocation`)
+ * - `left`/`right`: `INavIcon`, incluindo `expanded`, `defaultExpanded` e `onExpandedChange`
+ *   (estado publicado via `PageZoneNav` para `NavToggle`)
+ * - `left.expansion`/`right.expansion`: push (padrão) | overlay (flutua sobre o ContentWrapper;
+ *   recolhido por padrão)
+ * - `drawerBelow`: xs | sm | md | lg | false → abaixo do breakpoint, navegações laterais
+ *   viram gavetas off-canvas abertas por `NavToggle` inserido no primeiro `HeaderBar`
+ * - `state`: adaptador de estado opcional (`IStateAdapter`, ex.: `zagState()`), herdado;
+ *   conduz MenuX, recolhimento e gavetas por máquinas. Ausente → baseline CSS-only
  *
  * @development
  * - Mantém consistência total com HeaderBar, NavIcon, ButtonX e MenuX.
@@ -138,6 +155,10 @@
  *   1. Acessibilidade (aria-label quando aplicável)
  *   2. Consistência visual (estados :hover, :active , ..., via CSS)
  *   3. Performance (zero JS para estado/animações/transições)
+ * - Validação de composição via `PageZoneValidation`:
+ *   • Diagnóstico com código estável, componente, escopo, índice e correção
+ *   • `strict` lança `PageZoneValidationError`; demais modos renderizam sem reordenar,
+ *     reportando cada conjunto distinto de violações uma vez
  *
  * @dependencies
  * - ButtonX
@@ -155,18 +176,46 @@
  * @see {@link ButtonX}
  */
 import { JSX, toChildArray, VNode } from 'preact';
-import { tv, type VariantProps } from 'tailwind-variants';
+import { type VariantProps } from 'tailwind-variants';
+import { PageZoneVariants } from './PageZoneVariants';
 import { twMerge } from 'tailwind-merge';
 import clsx from 'clsx';
 import { resolveClassName } from '@mod/jcemTS/src/ts/common/ui';
 import './PageZone.scss';
 //import { ContentWrapper } from '../ContentWrapper/ContentWrapper';
-import { HeaderZone } from '../HeaderZone/HeaderZone';
 import { Button, INavIcon, Menu, NavIcon } from '../NavIcon/NavIcon';
-import { FooterZone } from '../FooterZone/FooterZone';
 import { EnclosureContent } from '../EnclosureContent/EnclosureContent';
-import { ContentWrapper } from '../ContentWrapper/ContentWrapper';
-import { HAS } from '@mod/jcemTS/src/ts/common/logicos';
+import {
+	parsePageZoneChildren,
+	useReportViolations,
+	TValidationLevel,
+	TViolationHandler,
+} from './PageZoneValidation';
+import {
+	IPageZoneScope,
+	IScopeLogger,
+	PageZoneScopeContext,
+	resolveScope,
+	TDensity,
+	scopedId,
+	usePageZoneScope,
+} from './PageZoneScope';
+import {
+	chainIcons,
+	toIconProvider,
+	TIconSource,
+} from '../IconProvider/IconProvider';
+import { ILocationSource } from '@ts/hooks/useLocation';
+import {
+	IPageZoneNavSide,
+	PageZoneNavContext,
+	TDrawerBreakpoint,
+	TNavExpansion,
+	TNavSide,
+} from './PageZoneNav';
+import { useState } from 'preact/hooks';
+import { useControllable } from '@ts/hooks/useControllable';
+import type { IStateAdapter } from '../StateAdapter/StateAdapter';
 
 /** 🔗 Props */
 export interface IPageZone
@@ -174,52 +223,100 @@ export interface IPageZone
 		VariantProps<typeof PageZoneVariants> {
 	escopo?: string;
 	classPart?: string;
-	left?: INavIcon;
-	right?: INavIcon;
+	left?: IPageZoneSideNav;
+	right?: IPageZoneSideNav;
+	validation?: TValidationLevel;
+	onViolation?: TViolationHandler;
+	theme?: string;
+	icons?: TIconSource | TIconSource[];
+	location?: ILocationSource;
+	logger?: IScopeLogger;
+	density?: TDensity;
+	drawerBelow?: TDrawerBreakpoint | false;
+	state?: IStateAdapter;
 }
 
-/** 🎨 Variantes */
-const PageZoneVariants = tv({
-	base: 'PageZone-jcem relative w-full',
-	variants: {
-		variant: {
-			normal: '',
-			border: 'border border-base-300 rounded-box',
-			shadow: 'shadow-md rounded-box',
-			glass:
-				'bg-base-100 bg-opacity-50 backdrop-blur-md border border-base-300 rounded-box',
-			ghost: 'bg-transparent',
-		},
-		size: {
-			xs: 'text-xs',
-			sm: 'text-sm',
-			md: 'text-base',
-			lg: 'text-lg',
-			xl: 'text-xl',
-		},
-		shadow: {
-			none: '',
-			sm: 'shadow-sm',
-			md: 'shadow-md',
-			lg: 'shadow-lg',
-			xl: 'shadow-xl',
-			'2xl': 'shadow-2xl',
-		},
-		compact: {
-			true: 'p-2 sm:p-3',
-			false: 'p-4 sm:p-6',
+/** 🧭 Navegação lateral: NavIcon + modo de expansão */
+export interface IPageZoneSideNav extends INavIcon {
+	expansion?: TNavExpansion;
+}
+
+/** 🧭 Estado e renderização de uma navegação lateral */
+function useSideNav(
+	scope: IPageZoneScope,
+	side: TNavSide,
+	desc?: IPageZoneSideNav,
+): [JSX.Element | false, IPageZoneNavSide | undefined] {
+	const [expanded, setExpanded] = useControllable(
+		desc?.expanded,
+		// Overlay recolhido por padrão: o painel não cobre o conteúdo ao montar
+		desc?.defaultExpanded ??
+			(desc?.expansion !== 'overlay' && !desc?.compact),
+		desc?.onExpandedChange,
+	);
+	const [drawerOpen, setDrawerOpen] = useState(false);
+	const navId = `${desc?.id ?? scopedId(scope, `nav-${side}`)}`;
+	const toggleId =
+		desc?.toggleId ?? scopedId(scope, `nav-${side}-toggle`);
+	const drawerId = scopedId(scope, `nav-${side}-drawer`);
+
+	/** ⚙️ Máquinas do adaptador (opcional): recolhimento e gaveta modal */
+	const collapse = scope.state?.useCollapsible({
+		id: toggleId,
+		open: expanded,
+		onOpenChange: setExpanded,
+		ids: { trigger: `${toggleId}-trigger`, content: navId },
+	});
+	const dialog = scope.state?.useDialog({
+		id: drawerId,
+		open: drawerOpen,
+		onOpenChange: setDrawerOpen,
+		ids: {
+			trigger: `${drawerId}-trigger`,
+			content: navId,
+			backdrop: `${drawerId}-backdrop`,
 		},
-	},
-	defaultVariants: {
-		variant: 'normal',
-		size: 'md',
-		shadow: 'none',
-		compact: false,
-	},
-});
+	});
+
+	if (!desc) return [false, undefined];
 
-/** 🧠 Type Guard */
-const isType = (node: VNode, cmp: any) => node?.type === cmp;
+	const { className, expansion = 'push', ...rest } = desc;
+	const collapsible = desc.collapsible ?? expansion === 'overlay';
+
+	return [
+		<NavIcon
+			as="aside"
+			{...rest}
+			{...(drawerOpen ? dialog?.content
+			: collapsible ? collapse?.content
+			: undefined)}
+			collapsible={collapsible}
+			tabIndex={expansion === 'overlay' ? -1 : rest.tabIndex}
+			id={navId}
+			toggleId={toggleId}
+			expanded={expanded}
+			onExpandedChange={setExpanded}
+			data-side={side}
+			className={twMerge(
+				'flex-shrink-0 h-full',
+				resolveClassName(className),
+			)}
+		/>,
+		{
+			navId,
+			toggleId,
+			expanded,
+			setExpanded,
+			expansion,
+			collapsible: !!collapsible,
+			drawerId,
+			drawerOpen,
+			setDrawerOpen,
+			collapse: collapsible ? collapse : undefined,
+			dialog,
+		},
+	];
+}
 
 /** 🚀 PageZone */
 export function PageZone({
@@ -229,94 +326,72 @@ export function PageZone({
 	variant = 'normal',
 	size = 'md',
 	shadow = 'none',
-	compact = false,
+	compact,
 	children,
 	left,
 	right,
+	validation,
+	onViolation,
+	theme,
+	icons,
+	location,
+	logger,
+	density,
+	drawerBelow = false,
+	state,
 	...props
 }: IPageZone) {
 	/** 🔍 Processamento dos filhos */
 	const childs = toChildArray(children).filter(Boolean) as VNode[];
 
-	/** 🚥 Validar e extrair na ordem */
-	let idx = 0;
-
-	// Header (opcional, se presente deve ser primeiro)
-	const header =
-		isType(childs[idx], HeaderZone) ? childs[idx++] : null;
-
-	// Nav Left (opcional, se presente deve ser segundo)
-	const cleft =
-		'flex-shrink-0 h-full' + HAS('className', left ? left : {}) ?
-			left?.className
-		:	'';
-	if (left) delete left.className;
-	const navLeft =
-		!left ? false : (
-			<NavIcon as="aside" className={cleft} {...left} />
-		);
-
-	// ContentWrapper (obrigatório)
-	if (!isType(childs[idx], ContentWrapper)) {
-		console.error(
-			`[PageZone] Esperado <ContentWrapper> na posição ${idx + 1}.`,
-		);
-		throw new Error(
-			`[PageZone] Conteúdo principal deve estar dentro de <ContentWrapper>.`,
-		);
-	}
-	const content = childs[idx++];
-
-	// Nav Right (opcional)
-	const cright =
-		'flex-shrink-0 h-full' + HAS('className', right ? right : {}) ?
-			right?.className
-		:	'';
-	if (right) delete right.className;
-	const navRight =
-		!right ? false : (
-			<NavIcon as="aside" className={cright} {...right} />
-		);
-
-	// Footer (opcional, se presente deve ser o último)
-	const footer =
-		isType(childs[idx], FooterZone) ? childs[idx++] : null;
+	/** 🧬 Escopo: overrides locais ou herança do PageZone ancestral */
+	const parent = usePageZoneScope();
+	const scope = resolveScope(parent, escopo, {
+		theme,
+		icons: icons && chainIcons(toIconProvider(icons), parent.icons),
+		location,
+		logger,
+		density,
+		state,
+		validation: {
+			...(validation && { level: validation }),
+			...(onViolation && { onViolation }),
+		},
+	});
+	compact = compact ?? scope.density === 'compact';
 
-	// 🚫 Sobras inválidas
-	if (idx < childs.length) {
-		console.error(
-			`[PageZone] Componentes inesperados após posição ${idx}. Verifique a ordem: Header → NavLeft → ContentWrapper → NavRight → Footer.`,
-		);
-		throw new Error(`[PageZone] Ordem dos filhos inválida.`);
-	}
+	// Nav Left / Nav Right (opcionais)
+	const [navLeft, leftState] = useSideNav(scope, 'left', left);
+	const [navRight, rightState] = useSideNav(scope, 'right', right);
+	const [drawerOwner, setDrawerOwner] = useState<string | null>(null);
+	const navs = {
+		left: leftState,
+		right: rightState,
+		...(drawerBelow && {
+			drawer: {
+				below: drawerBelow,
+				owner: drawerOwner,
+				claim: (id: string) => setDrawerOwner((cur) => cur ?? id),
+				release: (id: string) =>
+					setDrawerOwner((cur) => (cur === id ? null : cur)),
+			},
+		}),
+	};
 
-	/** ⚠️ Avisos úteis */
-	if (!header) {
-		console.warn(
-			`[PageZone] HeaderZone não fornecido. Página sem cabeçalho.`,
-		);
-	}
-	if (!footer) {
-		console.warn(
-			`[PageZone] FooterZone não fornecido. Página sem rodapé.`,
-		);
-	}
-	if (navLeft && !navRight) {
-		console.warn(
-			`[PageZone] Apenas NavIcon à esquerda. Considere adicionar um à direita.`,
-		);
-	}
-	if (navRight && !navLeft) {
-		console.warn(
-			`[PageZone] Apenas NavIcon à direita. Considere adicionar um à esquerda.`,
-		);
-	}
+	/** ✅ Validar e extrair na ordem */
+	const { header, content, footer, violations } =
+		parsePageZoneChildren(childs, escopo, {
+			left: !!navLeft,
+			right: !!navRight,
+		});
+	useReportViolations(violations, scope.validation, scope.logger);
 
 	/** 🎨 Classes finais */
 	const finalClass = twMerge(
 		PageZoneVariants({ variant, size, shadow, compact }),
 		clsx(
 			`PageZone-jcem-${escopo}`,
+			scope.ns !== escopo && `PageZone-jcem-${scope.ns}`,
 			classPart && `PageZone-${classPart}`,
 		),
 		resolveClassName(className),
@@ -326,6 +401,8 @@ export function PageZone({
 	return (
 		<section
 			{...props}
+			data-escopo={scope.ns}
+			data-theme={theme}
 			className={twMerge(
 				finalClass,
 				'flex flex-col min-h-dvh', // 🚩 Garante altura mínima da janela
@@ -333,16 +410,20 @@ export function PageZone({
 				'',
 			)}
 		>
-			{/* Header */}
-			{header}
+			<PageZoneScopeContext.Provider value={scope}>
+				<PageZoneNavContext.Provider value={navs}>
+					{/* Header */}
+					{header}
 
-			{/* Body */}
-			<EnclosureContent navLeft={navLeft} navRight={navRight}>
-				{content}
-			</EnclosureContent>
+					{/* Body */}
+					<EnclosureContent navLeft={navLeft} navRight={navRight}>
+						{content}
+					</EnclosureContent>
 
-			{/* Footer */}
-			{footer}
+					{/* Footer */}
+					{footer}
+				</PageZoneNavContext.Provider>
+			</PageZoneScopeContext.Provider>
 		</section>
 	);
 }
@@ -0,0 +1,27 @@
+/**
+ * PageZoneDrawer — Lados, modos de expansão e breakpoints das navegações laterais.
+ *
+ * @description
+ * Constantes sem dependência de Preact, compartilhadas por `PageZoneNav`
+ * e pelo renderizador vanilla (`@ts/vanilla`).
+ *
+ * @see {@link PageZoneNav}
+ */
+export type TNavSide = 'left' | 'right';
+
+/** Modo de expansão da navegação lateral */
+export type TNavExpansion = 'push' | 'overlay';
+
+/** Breakpoints (px) abaixo dos quais as navegações viram gaveta */
+export const DRAWER_BREAKPOINTS = {
+	xs: 320,
+	sm: 480,
+	md: 768,
+	lg: 1024,
+} as const;
+
+export type TDrawerBreakpoint = keyof typeof DRAWER_BREAKPOINTS;
+
+/** Media query ativa abaixo do breakpoint */
+export const drawerQuery = (below: TDrawerBreakpoint) =>
+	`(max-width: ${DRAWER_BREAKPOINTS[below] - 0.02}px)`;
@@ -0,0 +1,70 @@
+/**
+ * PageZoneNav — Estado das navegações laterais do PageZone.
+ *
+ * @description
+ * Publica, para os descendentes do `PageZone`, os ids e o estado
+ * expandido/recolhido dos `NavIcon` laterais (`left`/`right`),
+ * permitindo que controles externos (ex.: `NavToggle` no `HeaderBar`)
+ * leiam e alterem esse estado.
+ *
+ * @behavior
+ * - `toggleId`: id do `input:checkbox` que recolhe a navegação
+ *   (alvo de `label[for]`, funciona sem JS).
+ * - `navId`: id do `aside` controlado (`aria-controls`).
+ * - `expanded`/`setExpanded`: estado sincronizado com o `PageZone`.
+ * - `expansion`: `push` (empurra o conteúdo) | `overlay` (flutua sobre o conteúdo).
+ * - `collapsible`: somente navegações recolhíveis aceitam `NavToggle` de recolhimento.
+ * - `drawerId`/`drawerOpen`: gaveta off-canvas abaixo de `drawer.below`
+ *   (checkbox alvo de `label[for]`, funciona sem JS).
+ * - `drawer.owner`: primeiro `HeaderBar` que reivindica (`claim`) os botões
+ *   automáticos da gaveta; ao desmontar, libera (`release`) para o próximo.
+ * - `collapse`/`dialog`: partes do adaptador de estado do escopo (collapsible e
+ *   gaveta modal), ausentes no baseline CSS-only (ver `StateAdapter`).
+ *
+ * @see {@link PageZone}
+ * @see {@link NavToggle}
+ */
+import { createContext } from 'preact';
+import { useContext } from 'preact/hooks';
+import type { IDisclosureBinding } from '../StateAdapter/StateAdapter';
+import type {
+	TDrawerBreakpoint,
+	TNavExpansion,
+} from './PageZoneDrawer';
+
+export * from './PageZoneDrawer';
+
+/** Estado publicado por lado */
+export interface IPageZoneNavSide {
+	navId: string;
+	toggleId: string;
+	expanded: boolean;
+	setExpanded: (expanded: boolean) => void;
+	expansion: TNavExpansion;
+	collapsible: boolean;
+	drawerId: string;
+	drawerOpen: boolean;
+	setDrawerOpen: (open: boolean) => void;
+	collapse?: IDisclosureBinding;
+	dialog?: IDisclosureBinding;
+}
+
+/** Configuração da gaveta off-canvas */
+export interface IPageZoneDrawer {
+	below: TDrawerBreakpoint;
+	owner: string | null;
+	claim: (id: string) => void;
+	release: (id: string) => void;
+}
+
+export interface IPageZoneNav {
+	left?: IPageZoneNavSide;
+	right?: IPageZoneNavSide;
+	drawer?: IPageZoneDrawer;
+}
+
+/** 🔗 Contexto das navegações laterais */
+export const PageZoneNavContext = createContext<IPageZoneNav>({});
+
+/** 🪝 Navegações do PageZone mais próximo */
+export const usePageZoneNav = () => useContext(PageZoneNavContext);
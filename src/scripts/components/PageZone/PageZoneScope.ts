@@ -0,0 +1,134 @@
+/**
+ * PageZoneScope — Escopo/configuração herdável entre PageZone aninhados.
+ *
+ * @description
+ * Cada `PageZone` resolve um escopo a partir do ancestral mais próximo,
+ * aplicando apenas os overrides declarados localmente. O escopo isola
+ * subaplicativos hospedados no mesmo shell: tema, provider de ícones,
+ * origem da localização, logger, densidade e validação não vazam entre irmãos.
+ * O provider de ícones local é encadeado antes do herdado (ver `IconProvider`);
+ * o escopo raiz resolve apenas os glifos neutros dos controles internos
+ * (`BUILTIN_GLYPHS`) e emojis: FontAwesome e demais providers são opt-in.
+ * O adaptador de estado (`state`, ver `StateAdapter`) é opcional: ausente,
+ * menus, recolhimento e gavetas seguem no baseline CSS-only.
+ *
+ * @structure
+ * ```
+ * [PageZone escopo="shell"]            → ns: shell
+ *  └── ContentWrapper
+ *       └── [PageZone escopo="crm"]    → ns: shell__crm (herda/override)
+ * ```
+ *
+ * @behavior
+ * - Herança: campo ausente no override → valor do ancestral.
+ * - `escopo` compõe o namespace (`ns`) usado em classes, `data-*` e ids.
+ * - Sem `PageZone` ancestral, vale o escopo raiz (`ROOT_SCOPE`).
+ *
+ * @development
+ * - Boas práticas:
+ *   • Mensagens de log/warn/error via Logger
+ *   • Manutenção git-friendly (evitar breaking changes)
+ *   • Comentário de uma única linha preferíveis, exceto quando para jsDoc
+ *
+ * @see {@link PageZone}
+ */
+import { ComponentChild, createContext } from 'preact';
+import { useContext } from 'preact/hooks';
+import Logger from '@mod/jcemTS/src/ts/utils/logger';
+import type { IPageZoneValidation } from './PageZoneValidation';
+import {
+	textIcons,
+	type IIconProvider,
+} from '../IconProvider/IconProvider';
+import { BUILTIN_GLYPHS } from '../IconProvider/IconGlyph';
+import type { IStateAdapter } from '../StateAdapter/StateAdapter';
+import {
+	historyLocation,
+	ILocationSource,
+} from '@ts/hooks/useLocation';
+
+/** Densidade visual herdável */
+export type TDensity = 'normal' | 'compact';
+
+/** Contrato mínimo de logger aceito pelo escopo */
+export interface IScopeLogger {
+	info: (...args: any[]) => void;
+	warn: (...args: any[]) => void;
+	error: (...args: any[]) => void;
+}
+
+/** Renderizador de ícone legado (aceito em `PageZone.icons`, ver `IconProvider`) */
+export type TIconRenderer = (
+	icon: any,
+	className?: string,
+) => ComponentChild;
+
+/** Escopo resolvido */
+export interface IPageZoneScope {
+	escopo: string;
+	path: string[];
+	ns: string;
+	depth: number;
+	theme?: string;
+	icons: IIconProvider;
+	location: ILocationSource;
+	logger: IScopeLogger;
+	density: TDensity;
+	validation: IPageZoneValidation;
+	state?: IStateAdapter;
+}
+
+/** Overrides declaráveis por PageZone */
+export type TPageZoneScopeOverrides = Partial<
+	Pick<
+		IPageZoneScope,
+		'theme' | 'icons' | 'location' | 'logger' | 'density' | 'state'
+	>
+> & { validation?: Partial<IPageZoneValidation> };
+
+/** Escopo raiz (sem PageZone ancestral) */
+export const ROOT_SCOPE: IPageZoneScope = {
+	escopo: '',
+	path: [],
+	ns: '',
+	depth: -1,
+	icons: textIcons(BUILTIN_GLYPHS, { name: 'builtin' }),
+	location: historyLocation(),
+	logger: Logger,
+	density: 'normal',
+	validation: { level: 'warn' },
+};
+
+/** 🔗 Contexto do escopo */
+export const PageZoneScopeContext =
+	createContext<IPageZoneScope>(ROOT_SCOPE);
+
+/** 🪝 Escopo do PageZone mais próximo */
+export const usePageZoneScope = () =>
+	useContext(PageZoneScopeContext);
+
+/** 🧬 Resolve o escopo filho a partir do ancestral */
+export function resolveScope(
+	parent: IPageZoneScope,
+	escopo: string,
+	overrides: TPageZoneScopeOverrides = {},
+): IPageZoneScope {
+	const path = [...parent.path, escopo];
+	const defined = Object.fromEntries(
+		Object.entries(overrides).filter(([, v]) => v !== undefined),
+	);
+
+	return {
+		...parent,
+		...defined,
+		validation: { ...parent.validation, ...overrides.validation },
+		escopo,
+		path,
+		ns: path.join('__'),
+		depth: parent.depth + 1,
+	};
+}
+
+/** 🆔 Id com namespace do escopo */
+export const scopedId = (scope: IPageZoneScope, id: string) =>
+	scope.ns ? `${scope.ns}-${id}` : id;
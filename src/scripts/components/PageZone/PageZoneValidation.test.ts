@@ -0,0 +1,241 @@
+import { h, render, VNode } from 'preact';
+import { act } from 'preact/test-utils';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { HeaderZone } from '../HeaderZone/HeaderZone';
+import { ContentWrapper } from '../ContentWrapper/ContentWrapper';
+import { FooterZone } from '../FooterZone/FooterZone';
+import { PageZone } from './PageZone';
+import {
+	IPageZoneViolation,
+	PageZoneValidationError,
+	parsePageZoneChildren,
+	reportViolations,
+	TValidationLevel,
+} from './PageZoneValidation';
+
+const header = () => h(HeaderZone, {});
+const content = () => h(ContentWrapper, {});
+const footer = () => h(FooterZone, {});
+const loose = () => h('p', null, 'solto');
+
+const noNav = { left: false, right: false };
+const codes = (childs: VNode[], nav = noNav) =>
+	parsePageZoneChildren(childs, 'app', nav).violations.map(
+		(v) => v.code,
+	);
+
+const logger = () => ({
+	info: vi.fn(),
+	warn: vi.fn(),
+	error: vi.fn(),
+});
+
+describe('parsePageZoneChildren', () => {
+	it('composição completa não gera violações', () => {
+		const childs = [header(), content(), footer()];
+		const parts = parsePageZoneChildren(childs, 'app', noNav);
+
+		expect(parts.violations).toEqual([]);
+		expect(parts.header).toBe(childs[0]);
+		expect(parts.content).toEqual([childs[1]]);
+		expect(parts.footer).toBe(childs[2]);
+	});
+
+	it('PZ_CONTENT_MISSING sem ContentWrapper (estrutural, posição esperada)', () => {
+		const [v] = parsePageZoneChildren(
+			[header(), footer()],
+			'app',
+			noNav,
+		).violations;
+
+		expect(v).toMatchObject({
+			code: 'PZ_CONTENT_MISSING',
+			kind: 'structural',
+			component: 'PageZone',
+			escopo: 'app',
+			index: 1,
+		});
+	});
+
+	it('PZ_CHILD_ORDER para Header/Footer fora de posição e ContentWrapper duplicado', () => {
+		expect(codes([content(), header(), footer()])).toEqual([
+			'PZ_CHILD_ORDER',
+			'PZ_HEADER_MISSING',
+		]);
+		expect(codes([header(), footer(), content()])).toEqual([
+			'PZ_CHILD_ORDER',
+			'PZ_FOOTER_MISSING',
+		]);
+		expect(codes([header(), content(), content(), footer()])).toEqual(
+			['PZ_CHILD_ORDER'],
+		);
+	});
+
+	it('PZ_CHILD_UNEXPECTED preserva o filho solto no conteúdo, na ordem', () => {
+		const childs = [header(), loose(), content(), footer()];
+		const parts = parsePageZoneChildren(childs, 'app', noNav);
+
+		expect(parts.violations).toMatchObject([
+			{ code: 'PZ_CHILD_UNEXPECTED', index: 1 },
+		]);
+		expect(parts.content).toEqual([childs[1], childs[2]]);
+	});
+
+	it('avisos de cabeçalho, rodapé e navegação desbalanceada são advisory', () => {
+		const violations = parsePageZoneChildren([content()], 'app', {
+			left: true,
+			right: false,
+		}).violations;
+
+		expect(violations.map((v) => [v.code, v.kind])).toEqual([
+			['PZ_HEADER_MISSING', 'advisory'],
+			['PZ_FOOTER_MISSING', 'advisory'],
+			['PZ_NAV_UNBALANCED', 'advisory'],
+		]);
+		expect(
+			codes([header(), content(), footer()], {
+				left: true,
+				right: true,
+			}),
+		).toEqual([]);
+	});
+});
+
+describe('reportViolations', () => {
+	const structural = parsePageZoneChildren(
+		[header(), loose(), content(), footer()],
+		'app',
+		noNav,
+	).violations;
+	const advisory = parsePageZoneChildren(
+		[header(), content()],
+		'app',
+		noNav,
+	).violations;
+	const all: IPageZoneViolation[] = [...structural, ...advisory];
+
+	const report = (level: TValidationLevel, violations = all) => {
+		const log = logger();
+		const onViolation = vi.fn();
+		const run = () =>
+			reportViolations(violations, { level, onViolation }, log);
+		return { log, onViolation, run };
+	};
+
+	it('off: nada é reportado nem lançado', () => {
+		const { log, onViolation, run } = report('off');
+
+		expect(run).not.toThrow();
+		expect(log.warn).not.toHaveBeenCalled();
+		expect(log.error).not.toHaveBeenCalled();
+		expect(onViolation).not.toHaveBeenCalled();
+	});
+
+	it('warn: toda violação vira warning', () => {
+		const { log, onViolation, run } = report('warn');
+
+		expect(run).not.toThrow();
+		expect(log.warn).toHaveBeenCalledTimes(2);
+		expect(log.error).not.toHaveBeenCalled();
+		expect(onViolation).toHaveBeenCalledTimes(2);
+	});
+
+	it('error: estrutural vira error, advisory warning', () => {
+		const { log, run } = report('error');
+
+		expect(run).not.toThrow();
+		expect(log.error).toHaveBeenCalledTimes(1);
+		expect(log.error.mock.calls[0][0]).toContain(
+			'[PageZone:app] PZ_CHILD_UNEXPECTED',
+		);
+		expect(log.warn).toHaveBeenCalledTimes(1);
+		expect(log.warn.mock.calls[0][0]).toContain('PZ_FOOTER_MISSING');
+	});
+
+	it('strict: lança PageZoneValidationError só com as estruturais', () => {
+		const { log, onViolation, run } = report('strict');
+
+		let error: unknown;
+		try {
+			run();
+		} catch (e) {
+			error = e;
+		}
+		expect(error).toBeInstanceOf(PageZoneValidationError);
+		expect((error as PageZoneValidationError).violations).toEqual(
+			structural,
+		);
+		expect((error as Error).message).toContain(
+			'[PZ_CHILD_UNEXPECTED]',
+		);
+		expect(log.warn).toHaveBeenCalledTimes(1);
+		expect(onViolation).toHaveBeenCalledTimes(2);
+	});
+
+	it('strict sem violações estruturais não lança', () => {
+		const { log, run } = report('strict', advisory);
+
+		expect(run).not.toThrow();
+		expect(log.warn).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('PageZone — reporte das violações', () => {
+	let root: HTMLElement;
+
+	afterEach(() => {
+		render(null, root);
+		root.remove();
+	});
+
+	const mount = (props: object, childs: VNode[]) =>
+		act(() => {
+			render(h(PageZone, props, ...childs), root);
+		});
+
+	it('padrão tolerante: filho fora de posição não esvazia a página', () => {
+		root = document.body.appendChild(document.createElement('div'));
+		const onViolation = vi.fn();
+
+		mount({ onViolation }, [content(), header(), footer()]);
+
+		expect(root.querySelector('section')).not.toBeNull();
+		expect(onViolation.mock.calls.map(([v]) => v.code)).toEqual([
+			'PZ_CHILD_ORDER',
+			'PZ_HEADER_MISSING',
+		]);
+	});
+
+	it('reporta uma vez por conjunto distinto de violações', () => {
+		root = document.body.appendChild(document.createElement('div'));
+		const onViolation = vi.fn();
+		const log = logger();
+		const props = { onViolation, logger: log, left: false };
+
+		mount(props, [loose(), content(), footer()]);
+		mount({ ...props, className: 'outra' }, [
+			loose(),
+			content(),
+			footer(),
+		]);
+		expect(onViolation).toHaveBeenCalledTimes(2);
+		expect(log.warn).toHaveBeenCalledTimes(2);
+
+		mount(props, [header(), content(), footer()]);
+		expect(onViolation).toHaveBeenCalledTimes(2);
+
+		mount(props, [header(), content()]);
+		expect(onViolation).toHaveBeenCalledTimes(3);
+		expect(onViolation.mock.calls[2][0].code).toBe(
+			'PZ_FOOTER_MISSING',
+		);
+	});
+
+	it('strict (opt-in) lança na renderização', () => {
+		root = document.body.appendChild(document.createElement('div'));
+
+		expect(() =>
+			mount({ validation: 'strict' }, [loose(), content()]),
+		).toThrow(PageZoneValidationError);
+	});
+});
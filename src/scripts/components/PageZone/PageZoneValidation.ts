@@ -0,0 +1,262 @@
+/**
+ * PageZoneValidation — Validação de composição do PageZone.
+ *
+ * @description
+ * Centraliza as regras de ordem/presença dos filhos de `PageZone`,
+ * produzindo diagnósticos estruturados e aplicando a severidade
+ * configurada, sem reordenar conteúdo silenciosamente.
+ *
+ * @behavior
+ * - Severidade (`TValidationLevel`):
+ *   • `off`: nenhuma validação é reportada.
+ *   • `warn`: toda violação vira warning; renderização tolerante.
+ *   • `error`: violação estrutural vira error, demais warning; renderização tolerante.
+ *   • `strict` (opt-in): violação estrutural lança `PageZoneValidationError`.
+ * - Padrão do escopo raiz: `warn` (composição incorreta nunca esvazia a página).
+ * - Cada conjunto distinto de violações é reportado uma vez
+ *   (`useReportViolations`), não a cada renderização.
+ * - Renderização tolerante: filhos fora de posição permanecem no
+ *   conteúdo central, na ordem original.
+ * - Severidade e handler são herdados do `PageZone` ancestral mais próximo
+ *   (via `PageZoneScope`).
+ *
+ * @diagnostics
+ * - Cada violação (`IPageZoneViolation`) contém:
+ *   • `code`: código estável (ex.: `PZ_CONTENT_MISSING`)
+ *   • `component`, `escopo`, `index` (posição do filho) e `fix` (correção sugerida)
+ *
+ * @development
+ * - Boas práticas:
+ *   • Mensagens de log/warn/error via Logger
+ *   • Manutenção git-friendly (evitar breaking changes)
+ *   • Comentário de uma única linha preferíveis, exceto quando para jsDoc
+ *
+ * @see {@link PageZone}
+ */
+import { VNode } from 'preact';
+import { useEffect } from 'preact/hooks';
+import type { IScopeLogger } from './PageZoneScope';
+import { HeaderZone } from '../HeaderZone/HeaderZone';
+import { ContentWrapper } from '../ContentWrapper/ContentWrapper';
+import { FooterZone } from '../FooterZone/FooterZone';
+
+/** Severidade da validação de composição */
+export type TValidationLevel = 'off' | 'warn' | 'error' | 'strict';
+
+/** Códigos estáveis de violação */
+export type TPageZoneViolationCode =
+	| 'PZ_CONTENT_MISSING'
+	| 'PZ_CHILD_ORDER'
+	| 'PZ_CHILD_UNEXPECTED'
+	| 'PZ_HEADER_MISSING'
+	| 'PZ_FOOTER_MISSING'
+	| 'PZ_NAV_UNBALANCED'
+	| 'LM_VERSION'
+	| 'LM_NODE_INVALID'
+	| 'LM_SLOT_MISSING';
+
+/** Diagnóstico estruturado de composição */
+export interface IPageZoneViolation {
+	code: TPageZoneViolationCode;
+	kind: 'structural' | 'advisory';
+	component: string;
+	escopo: string;
+	index?: number;
+	message: string;
+	fix: string;
+}
+
+export type TViolationHandler = (
+	violation: IPageZoneViolation,
+) => void;
+
+/** Configuração herdável de validação */
+export interface IPageZoneValidation {
+	level: TValidationLevel;
+	onViolation?: TViolationHandler;
+}
+
+/** Erro lançado em modo `strict` */
+export class PageZoneValidationError extends Error {
+	readonly violations: IPageZoneViolation[];
+
+	constructor(violations: IPageZoneViolation[]) {
+		super(
+			violations.map((v) => `[${v.code}] ${v.message}`).join('\n'),
+		);
+		this.name = 'PageZoneValidationError';
+		this.violations = violations;
+	}
+}
+
+/** Resultado da leitura dos filhos */
+export interface IPageZoneParts {
+	header: VNode | null;
+	content: VNode[];
+	footer: VNode | null;
+	violations: IPageZoneViolation[];
+}
+
+/** 🧠 Type Guard */
+const isType = (node: VNode, cmp: any) => node?.type === cmp;
+
+/** Nome legível do filho para diagnóstico */
+const nameOf = (node: VNode) => {
+	const t = node?.type as any;
+	if (typeof t === 'string') return `<${t}>`;
+	return `<${t?.displayName ?? t?.name ?? 'Anonymous'}>`;
+};
+
+/** 🚥 Lê os filhos na ordem Header → ContentWrapper → Footer */
+export function parsePageZoneChildren(
+	childs: VNode[],
+	escopo: string,
+	nav: { left: boolean; right: boolean },
+): IPageZoneParts {
+	const violations: IPageZoneViolation[] = [];
+	const add = (v: Omit<IPageZoneViolation, 'component' | 'escopo'>) =>
+		violations.push({ component: 'PageZone', escopo, ...v });
+
+	let idx = 0;
+	let end = childs.length;
+
+	// Header (opcional, se presente deve ser primeiro)
+	const header =
+		isType(childs[idx], HeaderZone) ? childs[idx++] : null;
+
+	// Footer (opcional, se presente deve ser o último)
+	const footer =
+		end > idx && isType(childs[end - 1], FooterZone) ?
+			childs[--end]
+		:	null;
+
+	// ContentWrapper (obrigatório) e sobras, preservando a ordem
+	const content = childs.slice(idx, end);
+	const main = content.findIndex((c) => isType(c, ContentWrapper));
+
+	if (main < 0) {
+		add({
+			code: 'PZ_CONTENT_MISSING',
+			kind: 'structural',
+			index: idx,
+			message: `Esperado <ContentWrapper> na posição ${idx + 1}.`,
+			fix: 'Envolva o conteúdo principal em <ContentWrapper>.',
+		});
+	}
+
+	content.forEach((child, i) => {
+		if (i === main) return;
+		const index = idx + i;
+
+		if (isType(child, HeaderZone) || isType(child, FooterZone)) {
+			const first = isType(child, HeaderZone);
+			add({
+				code: 'PZ_CHILD_ORDER',
+				kind: 'structural',
+				index,
+				message: `${nameOf(child)} fora de posição (${index + 1}).`,
+				fix: `Mova ${nameOf(child)} para ${first ? 'o primeiro' : 'o último'} filho do PageZone.`,
+			});
+			return;
+		}
+
+		add({
+			code:
+				isType(child, ContentWrapper) ? 'PZ_CHILD_ORDER' : (
+					'PZ_CHILD_UNEXPECTED'
+				),
+			kind: 'structural',
+			index,
+			message: `Componente inesperado ${nameOf(child)} na posição ${index + 1}. Ordem esperada: Header → ContentWrapper → Footer.`,
+			fix:
+				isType(child, ContentWrapper) ?
+					'Use apenas um <ContentWrapper> por PageZone; aninhe outro PageZone para subaplicativos.'
+				:	`Mova ${nameOf(child)} para dentro de <ContentWrapper>.`,
+		});
+	});
+
+	/** ⚠️ Avisos úteis */
+	if (!header) {
+		add({
+			code: 'PZ_HEADER_MISSING',
+			kind: 'advisory',
+			message: 'HeaderZone não fornecido. Página sem cabeçalho.',
+			fix: 'Adicione <HeaderZone> como primeiro filho, se desejado.',
+		});
+	}
+	if (!footer) {
+		add({
+			code: 'PZ_FOOTER_MISSING',
+			kind: 'advisory',
+			message: 'FooterZone não fornecido. Página sem rodapé.',
+			fix: 'Adicione <FooterZone> como último filho, se desejado.',
+		});
+	}
+	if (nav.left !== nav.right) {
+		const side = nav.left ? 'esquerda' : 'direita';
+		add({
+			code: 'PZ_NAV_UNBALANCED',
+			kind: 'advisory',
+			message: `Apenas NavIcon à ${side}.`,
+			fix: `Considere adicionar \`${nav.left ? 'right' : 'left'}\` ao PageZone.`,
+		});
+	}
+
+	return { header, content, footer, violations };
+}
+
+/** 📣 Aplica a severidade às violações */
+export function reportViolations(
+	violations: IPageZoneViolation[],
+	{ level, onViolation }: IPageZoneValidation,
+	logger: IScopeLogger,
+) {
+	if (level === 'off') return;
+
+	const fatal: IPageZoneViolation[] = [];
+
+	for (const v of violations) {
+		onViolation?.(v);
+
+		const text = `[${v.component}:${v.escopo}] ${v.code} — ${v.message} ${v.fix}`;
+
+		if (v.kind === 'advisory' || level === 'warn') {
+			logger.warn(text);
+		} else if (level === 'error') {
+			logger.error(text);
+		} else {
+			fatal.push(v);
+		}
+	}
+
+	if (fatal.length) {
+		throw new PageZoneValidationError(fatal);
+	}
+}
+
+/** 🔑 Assinatura estável de um conjunto de violações (código, posição e mensagem) */
+const signatureOf = (violations: IPageZoneViolation[]) =>
+	violations
+		.map(
+			(v) => `${v.component}:${v.code}@${v.index ?? ''} ${v.message}`,
+		)
+		.join('|');
+
+/** 🪝 Reporta uma vez por conjunto distinto de violações; `strict` lança na renderização */
+export function useReportViolations(
+	violations: IPageZoneViolation[],
+	validation: IPageZoneValidation,
+	logger: IScopeLogger,
+) {
+	const fatal =
+		validation.level === 'strict' ?
+			violations.filter((v) => v.kind === 'structural')
+		:	[];
+	if (fatal.length) throw new PageZoneValidationError(fatal);
+
+	const signature = `${validation.level} ${signatureOf(violations)}`;
+	useEffect(
+		() => reportViolations(violations, validation, logger),
+		[signature],
+	);
+}
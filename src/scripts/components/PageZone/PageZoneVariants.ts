@@ -0,0 +1,51 @@
+/**
+ * PageZoneVariants — Variantes visuais do PageZone.
+ *
+ * @description
+ * Classes do componente sem dependência de Preact: compartilhadas pelo
+ * componente e pelo renderizador vanilla (`@ts/vanilla`), garantindo a
+ * mesma saída de classes em ambos.
+ *
+ * @see {@link PageZone}
+ */
+import { tv } from 'tailwind-variants';
+
+/** 🎨 Variantes */
+export const PageZoneVariants = tv({
+	base: 'PageZone-jcem relative w-full',
+	variants: {
+		variant: {
+			normal: '',
+			border: 'border border-base-300 rounded-box',
+			shadow: 'shadow-md rounded-box',
+			glass:
+				'bg-base-100 bg-opacity-50 backdrop-blur-md border border-base-300 rounded-box',
+			ghost: 'bg-transparent',
+		},
+		size: {
+			xs: 'text-xs',
+			sm: 'text-sm',
+			md: 'text-base',
+			lg: 'text-lg',
+			xl: 'text-xl',
+		},
+		shadow: {
+			none: '',
+			sm: 'shadow-sm',
+			md: 'shadow-md',
+			lg: 'shadow-lg',
+			xl: 'shadow-xl',
+			'2xl': 'shadow-2xl',
+		},
+		compact: {
+			true: 'p-2 sm:p-3',
+			false: 'p-4 sm:p-6',
+		},
+	},
+	defaultVariants: {
+		variant: 'normal',
+		size: 'md',
+		shadow: 'none',
+		compact: false,
+	},
+});
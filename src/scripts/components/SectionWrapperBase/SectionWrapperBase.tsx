@@ -28,7 +28,7 @@
  *   3. Performance (zero JS para estado/animações/transições)
  *
  * @development
- * - Gera ids únicos via `guid()`.
+ * - Gera ids únicos via `guid()`, prefixados pelo namespace do `PageZoneScope`.
  * - Mantém consistência total com `ButtonX` e `MenuX`.
  * - Usa helper `resolveClassName()` para tratamento de classes.
  * - Boas práticas:
@@ -53,14 +53,17 @@
 
 import { JSX } from 'preact';
 import { twMerge } from 'tailwind-merge';
-import { tv } from 'tailwind-variants';
+import { sectionVariants } from './SectionWrapperBaseVariants';
 import { guid } from '@mod/jcemTS/src/ts/common/generic';
 import {
 	HTML_TAGS,
 	HtmlTag,
 	resolveClassName,
 } from '@mod/jcemTS/src/ts/common/ui';
-import Logger from '@mod/jcemTS/src/ts/utils/logger';
+import {
+	scopedId,
+	usePageZoneScope,
+} from '../PageZone/PageZoneScope';
 
 /** 🚩rops do SectionWrapperBase */
 export interface ISectionWrapperBase
@@ -75,30 +78,6 @@ export interface ISectionWrapperBase
 	as?: any;
 }
 
-/** 🎨 Variantes Visuais */
-const sectionVariants = tv({
-	base: 'section-jcem w-full z-30',
-	variants: {
-		stack: {
-			true: 'flex flex-col gap-2',
-			false: '',
-		},
-		shadow: {
-			true: 'shadow-md',
-			false: '',
-		},
-		container: {
-			true: 'max-w-7xl mx-auto',
-			false: '',
-		},
-	},
-	defaultVariants: {
-		stack: false,
-		shadow: true,
-		container: false,
-	},
-});
-
 /** 🚀 sectione Base */
 export function SectionWrapperBase<T extends HtmlTag>({
 	as = 'section' as T,
@@ -113,10 +92,11 @@ export function SectionWrapperBase<T extends HtmlTag>({
 	...props
 }: ISectionWrapperBase) {
 	const Tag = HTML_TAGS.includes(as) ? as : 'section';
-	const cid = `${Tag}-${escopo}-${guid(6)}`;
+	const scope = usePageZoneScope();
+	const cid = scopedId(scope, `${Tag}-${escopo}-${guid(6)}`);
 
 	if (debug) {
-		Logger.info(`[SectionWrapperBase] Rendered → ${cid}`, {
+		scope.logger.info(`[SectionWrapperBase] Rendered → ${cid}`, {
 			stack,
 			shadow,
 			container,
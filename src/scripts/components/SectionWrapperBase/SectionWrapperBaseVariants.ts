@@ -0,0 +1,35 @@
+/**
+ * SectionWrapperBaseVariants — Variantes visuais das seções.
+ *
+ * @description
+ * Classes do componente sem dependência de Preact: compartilhadas pelo
+ * componente e pelo renderizador vanilla (`@ts/vanilla`), garantindo a
+ * mesma saída de classes em ambos.
+ *
+ * @see {@link SectionWrapperBase}
+ */
+import { tv } from 'tailwind-variants';
+
+/** 🎨 Variantes Visuais */
+export const sectionVariants = tv({
+	base: 'section-jcem w-full z-30',
+	variants: {
+		stack: {
+			true: 'flex flex-col gap-2',
+			false: '',
+		},
+		shadow: {
+			true: 'shadow-md',
+			false: '',
+		},
+		container: {
+			true: 'max-w-7xl mx-auto',
+			false: '',
+		},
+	},
+	defaultVariants: {
+		stack: false,
+		shadow: true,
+		container: false,
+	},
+});
@@ -0,0 +1,99 @@
+/**
+ * StateAdapter — Contrato opcional de máquinas de estado (menu, recolhimento, gaveta).
+ *
+ * @description
+ * Sem adaptador, `MenuX`, o `NavIcon` recolhível e as gavetas do `PageZone`
+ * usam apenas os inputs ocultos (radio/checkbox + `label[for]`): o baseline
+ * CSS-only. Um adaptador declarado no `PageZone` (`state={zagState()}`)
+ * passa a conduzir o estado por máquinas, ganhando foco preso, typeahead,
+ * dismissal e retorno de foco corretos.
+ *
+ * @structure
+ * ```
+ * [PageZone state={adapter}]               → adaptador do escopo (herdado)
+ *  ├── MenuX           → useMenu()         gatilho, painel (role=menu), itens
+ *  ├── NavIcon (lado)  → useCollapsible()  NavToggle (collapse) + aside
+ *  └── gaveta (lado)   → useDialog()       NavToggle (drawer) + aside + backdrop
+ * ```
+ *
+ * @behavior
+ * - Estado continua nos componentes (controlado): a máquina recebe `open` e
+ *   devolve mudanças por `onOpenChange`; os inputs seguem espelhando o estado,
+ *   mantendo o CSS (`peer-checked`) e o markup.
+ * - Ids das partes são os dos componentes (`ids`), preservando `label[for]`,
+ *   `aria-controls` e seletores públicos.
+ * - Props das partes são mescladas às do componente (`mergePartProps`):
+ *   handlers dos dois lados executam (adaptador primeiro, o componente ainda
+ *   pode cancelar a ação nativa); demais atributos do adaptador prevalecem.
+ * - Visibilidade segue no CSS dos inputs: o adaptador não aplica `hidden`.
+ * - O adaptador é fixo por escopo durante a vida dos componentes (hooks).
+ *
+ * @development
+ * - Nenhum componente importa a implementação (ex.: `ZagState`): o adaptador
+ *   não selecionado não entra no artefato.
+ * - Boas práticas:
+ *   • Manutenção git-friendly (evitar breaking changes)
+ *   • Comentário de uma única linha preferíveis, exceto quando para jsDoc
+ *
+ * @see {@link PageZone}
+ * @see {@link MenuX}
+ */
+
+/** Props a espalhar em uma parte (atributos, aria e handlers) */
+export type TPartProps = Record<string, any>;
+
+/** Handler `on*` de uma parte (encadeado por `mergePartProps`) */
+type TPartHandler = (...args: unknown[]) => void;
+
+/** Opções comuns: estado controlado e ids das partes */
+export interface IStateOptions {
+	id: string;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	ids: { trigger?: string; content: string };
+}
+
+/** Opções da gaveta (diálogo modal) */
+export interface IDialogStateOptions extends IStateOptions {
+	ids: IStateOptions['ids'] & { backdrop?: string };
+}
+
+/** Vínculo de uma parte abrível (recolhimento, gaveta) */
+export interface IDisclosureBinding {
+	trigger: TPartProps;
+	content: TPartProps;
+	backdrop?: TPartProps;
+}
+
+/** Vínculo do menu (itens por posição na lista) */
+export interface IMenuBinding extends IDisclosureBinding {
+	item: (value: string, disabled?: boolean) => TPartProps;
+}
+
+/** Adaptador de estado: hooks chamados pelos componentes a cada renderização */
+export interface IStateAdapter {
+	name: string;
+	useMenu: (options: IStateOptions) => IMenuBinding;
+	useCollapsible: (options: IStateOptions) => IDisclosureBinding;
+	useDialog: (options: IDialogStateOptions) => IDisclosureBinding;
+}
+
+/** 🔗 Mescla props de parte: handlers encadeados (adaptador → componente), demais do adaptador prevalecem */
+export function mergePartProps(
+	own: TPartProps,
+	part: TPartProps | undefined,
+): TPartProps {
+	if (!part) return own;
+	const merged: TPartProps = { ...own, ...part };
+	for (const [name, fn] of Object.entries(part)) {
+		const mine: TPartHandler | undefined = own[name];
+		if (/^on[A-Z]/.test(name) && typeof mine === 'function') {
+			const theirs: TPartHandler | undefined = fn;
+			merged[name] = (...args: unknown[]) => {
+				theirs?.(...args);
+				mine(...args);
+			};
+		}
+	}
+	return merged;
+}
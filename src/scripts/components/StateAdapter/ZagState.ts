@@ -0,0 +1,86 @@
+/**
+ * ZagState — Adaptador de estado com máquinas Zag.js (menu, collapsible, dialog).
+ *
+ * @description
+ * Implementação de `IStateAdapter` sobre `@zag-js/menu`, `@zag-js/collapsible`
+ * e `@zag-js/dialog`, via `@zag-js/preact`. Declarado em um `PageZone`
+ * (`state={zagState()}`), vale para o escopo e os PageZone aninhados.
+ * - `MenuX` → menu: typeahead, item destacado, dismiss por clique/foco fora.
+ * - `NavIcon` recolhível → collapsible (trilho compacto, sem `hidden`).
+ * - Gaveta lateral → dialog modal: foco preso, scroll bloqueado e retorno do foco.
+ *
+ * @development
+ * - Único ponto do projeto que importa `@zag-js/*` (dependências opcionais,
+ *   instaladas pelo consumidor que adotar o adaptador).
+ * - Máquinas sempre controladas: `open` vem do componente e mudanças
+ *   retornam por `onOpenChange`.
+ * - Boas práticas:
+ *   • Manutenção git-friendly (evitar breaking changes)
+ *   • Comentário de uma única linha preferíveis, exceto quando para jsDoc
+ *
+ * @see {@link StateAdapter}
+ */
+import * as menu from '@zag-js/menu';
+import * as collapsible from '@zag-js/collapsible';
+import * as dialog from '@zag-js/dialog';
+import { normalizeProps, useMachine } from '@zag-js/preact';
+import type {
+	IDialogStateOptions,
+	IStateAdapter,
+	IStateOptions,
+	TPartProps,
+} from './StateAdapter';
+
+/** Visibilidade é do CSS (inputs + `peer-checked`): descarta `hidden` */
+const visible = ({ hidden, ...props }: TPartProps) => props;
+
+/** 🔁 Props de máquina controlada a partir das opções do componente */
+const controlled = ({ id, open, onOpenChange }: IStateOptions) => ({
+	id,
+	open,
+	onOpenChange: (details: { open: boolean }) =>
+		onOpenChange(details.open),
+});
+
+/** ⚙️ Adaptador Zag.js */
+export function zagState({ name = 'zag' } = {}): IStateAdapter {
+	return {
+		name,
+		useMenu: (options) => {
+			const service = useMachine(menu.machine, {
+				...controlled(options),
+				ids: options.ids,
+			});
+			const api = menu.connect(service, normalizeProps);
+			return {
+				trigger: api.getTriggerProps(),
+				content: visible(api.getContentProps()),
+				item: (value, disabled) =>
+					api.getItemProps({ value, disabled }),
+			};
+		},
+		useCollapsible: (options) => {
+			const service = useMachine(collapsible.machine, {
+				...controlled(options),
+				ids: options.ids,
+			});
+			const api = collapsible.connect(service, normalizeProps);
+			return {
+				trigger: api.getTriggerProps(),
+				content: visible(api.getContentProps()),
+			};
+		},
+		useDialog: (options: IDialogStateOptions) => {
+			const service = useMachine(dialog.machine, {
+				...controlled(options),
+				ids: options.ids,
+			});
+			const api = dialog.connect(service, normalizeProps);
+			return {
+				trigger: api.getTriggerProps(),
+				content: visible(api.getContentProps()),
+				backdrop: visible(api.getBackdropProps()),
+			};
+		},
+	};
+}
@@ -0,0 +1,52 @@
+/**
+ * `<jcem-button-x>` — ButtonX como Custom Element.
+ *
+ * @description
+ * Atributos: `caption`, `label`, `icon`, `aria-label`, `href`, `as`, `escopo`,
+ * `size`, `center`, `compact`, `loading`, `badge`, `badge-label`, `pressed`,
+ * `default-pressed`, `pressed-icon`, `pressed-caption`, `route`, `match`,
+ * `html-for`. Demais props (ex.: `icon` como objeto) via `el.props`.
+ *
+ * Toggle (`pressed`/`default-pressed`) emite `jcem-select` com `{ pressed }`.
+ *
+ * @see {@link ButtonX}
+ */
+import { ButtonX, TDomButtonX } from '../vanilla';
+import { JcemElement, TAttrMap } from './JcemElement';
+
+/** 🔘 `<jcem-button-x>` */
+export class JcemButtonX extends JcemElement<TDomButtonX> {
+	static tag = 'jcem-button-x';
+	static attrs: TAttrMap = {
+		caption: 'string',
+		label: 'string',
+		icon: 'string',
+		ariaLabel: 'string',
+		href: 'string',
+		as: 'string',
+		escopo: 'string',
+		size: 'string',
+		center: 'boolean',
+		compact: 'boolean',
+		loading: 'boolean',
+		badge: 'string',
+		badgeLabel: 'string',
+		pressed: 'boolean',
+		defaultPressed: 'boolean',
+		pressedIcon: 'string',
+		pressedCaption: 'string',
+		route: 'string',
+		match: 'string',
+		htmlFor: 'string',
+	};
+
+	protected view({ onPressedChange, ...props }: TDomButtonX) {
+		return ButtonX({
+			...props,
+			onPressedChange: (pressed: boolean) => {
+				onPressedChange?.(pressed);
+				this.emit('select', { pressed });
+			},
+		});
+	}
+}
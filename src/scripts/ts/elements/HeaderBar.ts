@@ -0,0 +1,58 @@
+/**
+ * `<jcem-header-bar>` — HeaderBar como Custom Element.
+ *
+ * @description
+ * Atributos: `bar-title` (`title` global do HTML viraria tooltip), `subtitle`, `logo`, `logo-alt`, `logo-href`,
+ * `heading-level`, `title-align`, `variant`, `sticky`, `size`, `shadow`,
+ * `compact`, `escopo`, `class-part`, `drawer-toggles` e `left`/`center`/`right`
+ * (JSON com ButtonX/MenuX/breadcrumbs; funções via propriedade).
+ *
+ * Slots: `title`, `subtitle`, `logo` e `search` substituem as props
+ * homônimas; `start`, `center` e `end` acrescentam conteúdo às zonas.
+ *
+ * @see {@link HeaderBar}
+ */
+import { HeaderBar, IDomHeaderBar } from '../vanilla';
+import { JcemElement, TAttrMap, TElementSlot } from './JcemElement';
+
+/** 🏷️ `<jcem-header-bar>` */
+export class JcemHeaderBar extends JcemElement<IDomHeaderBar> {
+	static tag = 'jcem-header-bar';
+	static attrs: TAttrMap = {
+		title: { type: 'string', attr: 'bar-title' },
+		subtitle: 'string',
+		logo: 'string',
+		logoAlt: 'string',
+		logoHref: 'string',
+		headingLevel: 'number',
+		titleAlign: 'string',
+		variant: 'string',
+		sticky: 'boolean',
+		size: 'string',
+		shadow: 'string',
+		compact: 'boolean',
+		escopo: 'string',
+		classPart: 'string',
+		drawerToggles: 'boolean',
+		left: 'json',
+		center: 'json',
+		right: 'json',
+	};
+
+	protected view(props: IDomHeaderBar, slot: TElementSlot) {
+		const zone = (items: IDomHeaderBar['left'], name: string) => {
+			const extra = slot(name);
+			return extra ? [...(items ?? []), extra] : items;
+		};
+		return HeaderBar({
+			...props,
+			title: slot('title') ?? props.title,
+			subtitle: slot('subtitle') ?? props.subtitle,
+			logo: slot('logo') ?? props.logo,
+			searchComponent: slot('search') ?? props.searchComponent,
+			left: zone(props.left, 'start'),
+			center: zone(props.center, 'center'),
+			right: zone(props.right, 'end'),
+		});
+	}
+}
@@ -0,0 +1,335 @@
+/**
+ * JcemElement — Base dos Custom Elements sobre o renderizador vanilla.
+ *
+ * @description
+ * Cada elemento renderiza a view de `@ts/vanilla` no próprio light DOM (as
+ * classes DaisyUI/Tailwind da página continuam aplicáveis), com:
+ * - props por atributo (`kebab-case`, tipadas em `static attrs`), por
+ *   propriedade (`el.caption = ...`) ou em lote (`el.props = {...}`);
+ * - slots: filhos com `slot="nome"` (ou sem, no slot `default`) são movidos
+ *   para os `<jcem-slot>` da view e preservados entre renderizações;
+ * - escopo herdado: elementos aninhados em slots usam o escopo do PageZone
+ *   em que foram inseridos e re-renderizam junto com o ancestral;
+ * - eventos `jcem-expand`, `jcem-collapse` e `jcem-select` (bubbles, composed).
+ *
+ * Registro seletivo: `define(JcemButtonX, JcemMenuX)` registra apenas os
+ * elementos importados.
+ *
+ * @see {@link mount}
+ */
+import {
+	createStore,
+	IDomScope,
+	isMenu,
+	listen,
+	reconcile,
+	renderNodes,
+	rootScope,
+	slot,
+	SLOT_TAG,
+	TDomContent,
+	TDomItem,
+	TDomView,
+} from '../vanilla';
+
+/** Tipo de conversão do atributo */
+export type TAttrType = 'string' | 'boolean' | 'number' | 'json';
+
+/** Props mapeadas: nome da prop → tipo (atributo em `kebab-case`) ou tipo + atributo */
+export type TAttrMap = Record<
+	string,
+	TAttrType | { type: TAttrType; attr: string }
+>;
+
+/** Slot da view: conteúdo do slot nomeado, se houver filhos para ele */
+export type TElementSlot = (name: string) => TDomView | undefined;
+
+/** Escopo de cada `<jcem-slot>` montado (herdado pelos elementos inseridos) */
+const SLOT_SCOPES = new WeakMap<Element, IDomScope>();
+
+/** `caption` → `caption`, `menuAlign` → `menu-align` */
+const kebab = (name: string) =>
+	name.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+
+/** Atributo da prop */
+const attrOf = (name: string, def: TAttrMap[string]) =>
+	typeof def === 'string' ? kebab(name) : def.attr;
+
+/** 🔤 Valor do atributo convertido (`null` = ausente) */
+function parseAttr(value: string | null, type: TAttrType) {
+	if (value === null) return undefined;
+	switch (type) {
+		case 'boolean':
+			return value !== 'false';
+		case 'number':
+			return Number(value);
+		case 'json':
+			try {
+				return JSON.parse(value);
+			} catch {
+				return undefined;
+			}
+		default:
+			return value;
+	}
+}
+
+/** Elemento `jcem-*` mais próximo (inclusive) */
+const closestElement = (node: Element | null) => {
+	for (let el = node; el; el = el.parentElement) {
+		if (el instanceof JcemElement) return el;
+	}
+	return null;
+};
+
+/** 🧩 Base dos elementos `jcem-*` */
+export abstract class JcemElement<
+	P extends object,
+> extends HTMLElement {
+	static tag: string;
+	static attrs: TAttrMap = {};
+
+	static get observedAttributes() {
+		return Object.entries(this.attrs).map(([name, def]) =>
+			attrOf(name, def),
+		);
+	}
+
+	private own: Partial<P> = {};
+	private nodes: Node[] = [];
+	private slotted: Map<string, Node[]> | null = null;
+	private scheduled = false;
+	private ready = false;
+	private unlisten?: () => void;
+	private store = createStore(() => this.schedule());
+
+	/** View vanilla a partir das props resolvidas */
+	protected abstract view(props: P, slot: TElementSlot): TDomContent;
+
+	/** Após cada renderização (eventos derivados do estado) */
+	protected rendered?(first: boolean): void;
+
+	/** Props em lote (atributos presentes têm precedência) */
+	get props(): P {
+		const attrs = (this.constructor as typeof JcemElement).attrs;
+		const fromAttrs = Object.fromEntries(
+			Object.entries(attrs)
+				.map(([name, def]) => [
+					name,
+					parseAttr(
+						this.getAttribute(attrOf(name, def)),
+						typeof def === 'string' ? def : def.type,
+					),
+				])
+				.filter(([, value]) => value !== undefined),
+		);
+		return { ...this.own, ...fromAttrs } as P;
+	}
+	set props(value: Partial<P>) {
+		this.own = { ...value };
+		this.schedule();
+	}
+
+	/** Prop individual (acessores definidos por `define`) */
+	setProp(name: keyof P, value: unknown) {
+		this.own = { ...this.own, [name]: value };
+		this.schedule();
+	}
+
+	connectedCallback() {
+		this.unlisten ??= listen(this.store, (node) =>
+			this.nodes.some((n) => n.contains(node)),
+		);
+		// Filhos ainda em parsing: aguarda o documento
+		if (document.readyState === 'loading') {
+			document.addEventListener(
+				'DOMContentLoaded',
+				() => this.update(),
+				{
+					once: true,
+				},
+			);
+		} else {
+			this.schedule();
+		}
+	}
+
+	disconnectedCallback() {
+		this.unlisten?.();
+		this.unlisten = undefined;
+	}
+
+	attributeChangedCallback() {
+		if (this.ready) this.schedule();
+	}
+
+	/** 📣 Evento `jcem-{name}` */
+	protected emit(
+		name: 'expand' | 'collapse' | 'select',
+		detail: object,
+	) {
+		this.dispatchEvent(
+			new CustomEvent(`jcem-${name}`, {
+				detail,
+				bubbles: true,
+				composed: true,
+			}),
+		);
+	}
+
+	/** Mudanças agrupadas em uma renderização por microtask */
+	private schedule() {
+		if (this.scheduled) return;
+		this.scheduled = true;
+		queueMicrotask(() => {
+			this.scheduled = false;
+			this.update();
+		});
+	}
+
+	/** Elemento `jcem-*` ancestral mais próximo */
+	private host() {
+		return closestElement(this.parentElement);
+	}
+
+	/** 📥 Filhos autorais agrupados por slot (capturados uma vez) */
+	private capture() {
+		const slotted = new Map<string, Node[]>();
+		for (const node of Array.from(this.childNodes)) {
+			if (
+				node.nodeType === Node.TEXT_NODE &&
+				!node.textContent?.trim()
+			) {
+				node.remove();
+				continue;
+			}
+			const name =
+				(node instanceof Element && node.getAttribute('slot')) ||
+				'default';
+			slotted.set(name, [...(slotted.get(name) ?? []), node]);
+			node.parentNode?.removeChild(node);
+		}
+		return slotted;
+	}
+
+	/** 🔁 Renderiza (ou aguarda o ancestral, que renderiza os aninhados) */
+	update() {
+		if (!this.isConnected) return;
+		const host = this.host();
+		if (host && !host.ready) return;
+
+		const slotted = (this.slotted ??= this.capture());
+		const first = !this.ready;
+		const parent = this.parentElement?.closest(SLOT_TAG);
+		const scope = rootScope(
+			this.store,
+			{},
+			(parent && SLOT_SCOPES.get(parent)) || undefined,
+		);
+
+		const scopes = new Map<string, IDomScope>();
+		const toSlot: TElementSlot = (name) =>
+			slotted.get(name)?.length ?
+				(s) => {
+					scopes.set(name, s);
+					return slot(name);
+				}
+			:	undefined;
+
+		const next = renderNodes(this.view(this.props, toSlot), scope);
+		this.nodes = reconcile(this, this.nodes, next);
+		this.ready = true;
+
+		/** 📦 Filhos autorais nos slots montados (exclui os de aninhados) */
+		const nested: JcemElement<object>[] = [];
+		this.querySelectorAll(SLOT_TAG).forEach((el) => {
+			const owner = el.parentElement?.closest(SLOT_TAG);
+			if (owner && this.contains(owner)) return;
+			const name = el.getAttribute('name')!;
+			const nodes = slotted.get(name) ?? [];
+			SLOT_SCOPES.set(el, scopes.get(name)!);
+			if (nodes.some((node) => node.parentNode !== el))
+				el.append(...nodes);
+			el.querySelectorAll('*').forEach((child) => {
+				if (child instanceof JcemElement && child.host() === this) {
+					nested.push(child);
+				}
+			});
+		});
+
+		this.rendered?.(first);
+		nested.forEach((child) => child.update());
+	}
+}
+
+/** 🧭 Item de `itens` pelo caminho de `li` até o elemento clicado */
+export function itemAt(
+	itens: TDomItem[] | undefined,
+	target: Element,
+	root: Element,
+): TDomItem | undefined {
+	const path: number[] = [];
+	for (
+		let li = target.closest('li');
+		li && root.contains(li);
+		li = li.parentElement?.closest('li') ?? null
+	) {
+		const siblings = Array.from(
+			li.parentElement?.children ?? [],
+		).filter((el) => el.localName === 'li');
+		path.unshift(siblings.indexOf(li));
+	}
+	let item: TDomItem | undefined;
+	let list = itens;
+	for (const index of path) {
+		item = list?.[index];
+		list = item && isMenu(item) ? item.itens : undefined;
+	}
+	return item;
+}
+
+/** ✅ Ativação de item (não submenu) delegada: emite `jcem-select` */
+export function onSelect(
+	el: JcemElement<{ itens?: TDomItem[] }>,
+	itens: () => TDomItem[] | undefined,
+	emit: (detail: object) => void,
+) {
+	el.addEventListener('click', (e) => {
+		const target = (e.target as Element).closest(
+			'[class*="btb-jcem"]',
+		);
+		if (!target || target.hasAttribute('aria-haspopup')) return;
+		// Itens de elementos aninhados emitem o próprio evento
+		if (closestElement(target) !== el) return;
+		const item = itemAt(itens(), target, el);
+		if (item && !('itens' in item)) emit({ item, element: target });
+	});
+}
+
+/** 🏷️ Registra os elementos informados (acessores de props inclusos) */
+export function define(
+	...elements: (CustomElementConstructor & {
+		tag: string;
+		attrs: TAttrMap;
+	})[]
+) {
+	for (const element of elements) {
+		if (customElements.get(element.tag)) continue;
+		for (const name of Object.keys(element.attrs)) {
+			if (name in element.prototype) continue;
+			Object.defineProperty(element.prototype, name, {
+				get(this: JcemElement<Record<string, unknown>>) {
+					return this.props[name];
+				},
+				set(
+					this: JcemElement<Record<string, unknown>>,
+					value: unknown,
+				) {
+					this.setProp(name, value);
+				},
+				configurable: true,
+			});
+		}
+		customElements.define(element.tag, element);
+	}
+}
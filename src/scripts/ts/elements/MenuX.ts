@@ -0,0 +1,60 @@
+/**
+ * `<jcem-menu-x>` — MenuX como Custom Element.
+ *
+ * @description
+ * Atributos: `caption`, `label`, `icon`, `aria-label`, `escopo`, `variant`,
+ * `menu-align`, `group`, `checked`, `open-active`, `compact` e `itens` (JSON).
+ * Itens com funções (`onClick`) via propriedade: `el.itens = [...]`.
+ *
+ * Eventos: `jcem-expand`/`jcem-collapse` ao abrir/fechar e `jcem-select`
+ * (`{ item, element }`) ao ativar um item.
+ *
+ * @see {@link MenuX}
+ */
+import { IDomMenuX, MenuX } from '../vanilla';
+import { JcemElement, onSelect, TAttrMap } from './JcemElement';
+
+/** 🌟 `<jcem-menu-x>` */
+export class JcemMenuX extends JcemElement<IDomMenuX> {
+	static tag = 'jcem-menu-x';
+	static attrs: TAttrMap = {
+		caption: 'string',
+		label: 'string',
+		icon: 'string',
+		ariaLabel: 'string',
+		escopo: 'string',
+		variant: 'string',
+		menuAlign: 'string',
+		group: 'string',
+		checked: 'boolean',
+		openActive: 'boolean',
+		compact: 'boolean',
+		itens: 'json',
+	};
+
+	private open = false;
+
+	constructor() {
+		super();
+		onSelect(
+			this,
+			() => this.props.itens,
+			(detail) => this.emit('select', detail),
+		);
+	}
+
+	protected view(props: IDomMenuX) {
+		return MenuX({ ...props, itens: props.itens ?? [] });
+	}
+
+	/** Abertura espelhada em `data-open` pelo MenuX */
+	protected rendered(first: boolean) {
+		const open = !!this.querySelector(
+			':scope > [data-menu][data-open]',
+		);
+		if (!first && open !== this.open) {
+			this.emit(open ? 'expand' : 'collapse', { open });
+		}
+		this.open = open;
+	}
+}
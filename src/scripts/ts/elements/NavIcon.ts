@@ -0,0 +1,53 @@
+/**
+ * `<jcem-nav-icon>` — NavIcon como Custom Element.
+ *
+ * @description
+ * Atributos: `as`, `escopo`, `orientation`, `behavior`, `compact`,
+ * `collapsible`, `expanded`, `default-expanded`, `toggle-id`, `menu-align`
+ * e `itens` (JSON). Itens com funções via propriedade: `el.itens = [...]`.
+ *
+ * Eventos: `jcem-expand`/`jcem-collapse` ao alternar o recolhimento e
+ * `jcem-select` (`{ item, element }`) ao ativar um item.
+ *
+ * @see {@link NavIcon}
+ */
+import { IDomNavIcon, NavIcon } from '../vanilla';
+import { JcemElement, onSelect, TAttrMap } from './JcemElement';
+
+/** 🧭 `<jcem-nav-icon>` */
+export class JcemNavIcon extends JcemElement<IDomNavIcon> {
+	static tag = 'jcem-nav-icon';
+	static attrs: TAttrMap = {
+		as: 'string',
+		escopo: 'string',
+		orientation: 'string',
+		behavior: 'string',
+		compact: 'boolean',
+		collapsible: 'boolean',
+		expanded: 'boolean',
+		defaultExpanded: 'boolean',
+		toggleId: 'string',
+		menuAlign: 'string',
+		itens: 'json',
+	};
+
+	constructor() {
+		super();
+		onSelect(
+			this,
+			() => this.props.itens,
+			(detail) => this.emit('select', detail),
+		);
+	}
+
+	protected view({ onExpandedChange, ...props }: IDomNavIcon) {
+		return NavIcon({
+			...props,
+			itens: props.itens ?? [],
+			onExpandedChange: (expanded: boolean) => {
+				onExpandedChange?.(expanded);
+				this.emit(expanded ? 'expand' : 'collapse', { expanded });
+			},
+		});
+	}
+}
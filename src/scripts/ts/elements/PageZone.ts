@@ -0,0 +1,110 @@
+/**
+ * `<jcem-page-zone>` — PageZone como Custom Element.
+ *
+ * @description
+ * Atributos: `escopo`, `class-part`, `variant`, `size`, `shadow`, `compact`,
+ * `theme`, `density`, `drawer-below` e `left`/`right` (JSON com NavIcon e
+ * `expansion`). Por propriedade: `icons`, `location`, `logger` e `header`/
+ * `content`/`footer` (props de HeaderZone/ContentWrapper/FooterZone).
+ *
+ * Slots: `header` (HeaderZone, ex.: `<jcem-header-bar slot="header">`),
+ * `default` (ContentWrapper) e `footer` (FooterZone). Elementos `jcem-*`
+ * inseridos herdam o escopo (namespace, ícones, navegações e gaveta).
+ *
+ * Eventos: `jcem-expand`/`jcem-collapse` com `{ side, target }` ao alternar
+ * a navegação lateral (`nav`) ou a gaveta (`drawer`).
+ *
+ * @see {@link PageZone}
+ */
+import {
+	IDomNavSide,
+	IDomPageZone,
+	IDomScope,
+	PageZone,
+	renderContent,
+	TDomOmit,
+} from '../vanilla';
+import type { TNavSide } from '@comp/PageZone/PageZoneDrawer';
+import { JcemElement, TAttrMap, TElementSlot } from './JcemElement';
+
+/** Props do elemento: regiões opcionais (preenchidas pelos slots) */
+type TPageZoneElement = TDomOmit<IDomPageZone, 'content'> & {
+	content?: IDomPageZone['content'];
+};
+
+/** 🚀 `<jcem-page-zone>` */
+export class JcemPageZone extends JcemElement<TPageZoneElement> {
+	static tag = 'jcem-page-zone';
+	static attrs: TAttrMap = {
+		escopo: 'string',
+		classPart: 'string',
+		variant: 'string',
+		size: 'string',
+		shadow: 'string',
+		compact: 'boolean',
+		theme: 'string',
+		density: 'string',
+		drawerBelow: 'string',
+		left: 'json',
+		right: 'json',
+	};
+
+	/** Último estado publicado de cada navegação lateral */
+	private navs: Partial<Record<TNavSide, IDomNavSide>> = {};
+
+	/** Escopo do PageZone (navegações publicadas) na última renderização */
+	private zone?: IDomScope;
+
+	protected view(
+		{ header, content, footer, ...props }: TPageZoneElement,
+		slot: TElementSlot,
+	) {
+		const headerSlot = slot('header');
+		const footerSlot = slot('footer');
+		return PageZone({
+			...props,
+			header: (header || headerSlot) && {
+				...header,
+				children: headerSlot ?? header?.children,
+			},
+			content: {
+				...content,
+				children: (scope) => {
+					this.zone = scope;
+					return renderContent(
+						slot('default') ?? content?.children,
+						scope,
+					);
+				},
+			},
+			footer: (footer || footerSlot) && {
+				...footer,
+				children: footerSlot ?? footer?.children,
+			},
+		});
+	}
+
+	/** Navegações publicadas no escopo do conteúdo → eventos */
+	protected rendered(first: boolean) {
+		const navs = this.zone?.navs;
+		for (const side of ['left', 'right'] as const) {
+			const nav = navs?.[side];
+			const last = this.navs[side];
+			if (!first && nav && last) {
+				if (nav.expanded !== last.expanded) {
+					this.emit(nav.expanded ? 'expand' : 'collapse', {
+						side,
+						target: 'nav',
+					});
+				}
+				if (nav.drawerOpen !== last.drawerOpen) {
+					this.emit(nav.drawerOpen ? 'expand' : 'collapse', {
+						side,
+						target: 'drawer',
+					});
+				}
+			}
+			this.navs[side] = nav;
+		}
+	}
+}
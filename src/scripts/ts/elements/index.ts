@@ -0,0 +1,57 @@
+/**
+ * elements — Custom Elements (`jcem-*`) sobre o renderizador vanilla.
+ *
+ * @description
+ * Para páginas renderizadas no servidor, sem framework:
+ *
+ * ```html
+ * <jcem-page-zone drawer-below="md" left='{"itens":[{"caption":"Início","href":"/"}]}'>
+ * 	<jcem-header-bar slot="header" bar-title="Painel"></jcem-header-bar>
+ * 	<p>Conteúdo</p>
+ * </jcem-page-zone>
+ * ```
+ *
+ * ```ts
+ * import { define } from '@ts/elements/JcemElement';
+ * import { JcemPageZone } from '@ts/elements/PageZone';
+ * import { JcemHeaderBar } from '@ts/elements/HeaderBar';
+ *
+ * define(JcemPageZone, JcemHeaderBar); // somente os elementos usados
+ * ```
+ *
+ * `defineAll()` registra todos (conveniência; importa todos os módulos).
+ *
+ * @see {@link JcemElement}
+ */
+import { define } from './JcemElement';
+import { JcemButtonX } from './ButtonX';
+import { JcemHeaderBar } from './HeaderBar';
+import { JcemMenuX } from './MenuX';
+import { JcemNavIcon } from './NavIcon';
+import { JcemPageZone } from './PageZone';
+
+export {
+	define,
+	itemAt,
+	JcemElement,
+	type TAttrMap,
+	type TAttrType,
+	type TElementSlot,
+} from './JcemElement';
+export {
+	JcemButtonX,
+	JcemHeaderBar,
+	JcemMenuX,
+	JcemNavIcon,
+	JcemPageZone,
+};
+
+/** 🏷️ Registra todos os elementos */
+export const defineAll = () =>
+	define(
+		JcemPageZone,
+		JcemHeaderBar,
+		JcemNavIcon,
+		JcemMenuX,
+		JcemButtonX,
+	);
@@ -0,0 +1,37 @@
+/**
+ * useControllable — Estado controlado/não controlado unificado.
+ *
+ * @description
+ * Padrão `value` + `defaultValue` + `onChange`:
+ * - `value` definido → modo controlado (fonte da verdade é o consumidor).
+ * - `value` ausente → estado interno iniciado em `defaultValue`.
+ * - `onChange` é notificado em ambos os modos, apenas quando o valor muda.
+ *
+ * @example
+ * const [expanded, setExpanded] = useControllable(
+ *   props.expanded,
+ *   props.defaultExpanded ?? true,
+ *   props.onExpandedChange,
+ * );
+ */
+import { useCallback, useState } from 'preact/hooks';
+
+export function useControllable<T>(
+	value: T | undefined,
+	defaultValue: T,
+	onChange?: (value: T) => void,
+): [T, (next: T) => void] {
+	const [inner, setInner] = useState<T>(defaultValue);
+	const controlled = value !== undefined;
+	const current = controlled ? (value as T) : inner;
+
+	const set = useCallback(
+		(next: T) => {
+			if (!controlled) setInner(next);
+			if (next !== current) onChange?.(next);
+		},
+		[controlled, current, onChange],
+	);
+
+	return [current, set];
+}
@@ -0,0 +1,41 @@
+/**
+ * useLocation — Localização atual e casamento de rotas dos itens.
+ *
+ * @description
+ * A origem da localização é plugável (`ILocationSource`) e selecionada por
+ * `PageZone` (`location`, herdada pelo escopo):
+ * - `historyLocation()` (padrão): `location.pathname`; atualiza em `popstate`
+ *   e em `navigate()` (History API).
+ * - `hashLocation()`: `location.hash` sem `#`/`#!`; atualiza em `hashchange`.
+ * - `routerLocation({ get, subscribe })`: roteador do consumidor.
+ *
+ * Itens (`ButtonX`/`MenuX` de um `NavIcon`) declaram `href` ou `route` e o
+ * modo de casamento `match`:
+ * - `exact` (padrão): mesma rota (barra final ignorada).
+ * - `prefix`: mesma rota ou descendente por segmento (`/a` casa `/a/b`, não `/ab`).
+ * - função `(location, route) => boolean`: critério próprio.
+ *
+ * Origens e casamento vivem em `@ts/location` (sem framework) e são
+ * reexportados aqui por compatibilidade.
+ *
+ * @example
+ * const path = useLocation(scope.location);
+ * const active = isRouteActive(item, path);
+ */
+import { useEffect, useState } from 'preact/hooks';
+import type { ILocationSource } from '../location';
+
+export * from '../location';
+
+/** 🪝 Localização atual da origem, re-renderizando a cada mudança */
+export function useLocation(source: ILocationSource) {
+	const [location, setLocation] = useState(source.get);
+
+	useEffect(() => {
+		const sync = () => setLocation(source.get());
+		sync();
+		return source.subscribe(sync);
+	}, [source]);
+
+	return location;
+}
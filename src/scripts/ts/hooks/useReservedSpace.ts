@@ -0,0 +1,40 @@
+/**
+ * useReservedSpace — Reserva no fluxo o espaço de um elemento fixo.
+ *
+ * @description
+ * Observa a altura do elemento `targetId` (ex.: FooterZone/HeaderZone
+ * `fixed`) via `ResizeObserver` e a publica em `--{name}` no espaçador,
+ * que ocupa a mesma altura no fluxo do documento. Sem JS (ou sem
+ * `ResizeObserver`), vale o fallback CSS do espaçador.
+ *
+ * @example
+ * const spacer = useRef<HTMLDivElement>(null);
+ * useReservedSpace(id, spacer, 'fzone-spacer', position === 'fixed');
+ * <div ref={spacer} style="height: var(--fzone-spacer, 4rem)" />
+ */
+import { RefObject } from 'preact';
+import { useEffect } from 'preact/hooks';
+
+export function useReservedSpace(
+	targetId: string,
+	spacer: RefObject<HTMLElement>,
+	name: string,
+	enabled = true,
+) {
+	useEffect(() => {
+		const target = document.getElementById(targetId);
+		if (!enabled || !target || !spacer.current) return;
+		if (typeof ResizeObserver === 'undefined') return;
+
+		const sync = () =>
+			spacer.current?.style.setProperty(
+				`--${name}`,
+				`${target.offsetHeight}px`,
+			);
+
+		const observer = new ResizeObserver(sync);
+		observer.observe(target);
+		sync();
+		return () => observer.disconnect();
+	}, [targetId, enabled]);
+}
@@ -0,0 +1,60 @@
+/**
+ * useRovingFocus — Navegação por teclado com roving tabindex.
+ *
+ * @description
+ * Transforma um grupo de itens (`ButtonX`/`MenuX` de um `NavIcon` ou de um
+ * `HeaderBar`) em uma única parada de Tab. Dentro do grupo:
+ * - Setas seguem a orientação (vertical: ↑/↓; horizontal: ←/→), com wrap.
+ * - Home/End vão ao primeiro/último item.
+ * - Caractere imprimível → type-ahead pela legenda (caption/aria-label).
+ * - Enter/Espaço acionam o item (`label` não é ativado por teclado nativamente).
+ * - Em gatilho de `MenuX`, Enter/Espaço ou a seta "para dentro"
+ *   (horizontal: ↓; vertical: →) abrem o painel e focam o primeiro item.
+ * - Escape é tratado pelo `MenuX` (fecha o painel e devolve o foco ao gatilho).
+ *
+ * Núcleo sem framework em `rovingFocus`, compartilhado com o renderizador vanilla.
+ *
+ * @example
+ * const list = useRef<HTMLUListElement>(null);
+ * const onKeyDown = useRovingFocus(list, () => ownItems(list.current), 'vertical');
+ * <ul ref={list} onKeyDown={onKeyDown}>...</ul>
+ */
+import { RefObject } from 'preact';
+import { useCallback, useEffect, useRef } from 'preact/hooks';
+import { ownItems } from '../ownItems';
+import {
+	rovingFocusIn,
+	rovingKey,
+	rovingState,
+	tabStops,
+} from '../rovingFocus';
+
+export { ownItems };
+
+export function useRovingFocus(
+	container: RefObject<HTMLElement>,
+	items: () => HTMLElement[],
+	orientation: 'vertical' | 'horizontal',
+	enabled = true,
+) {
+	const state = useRef(rovingState());
+
+	/** 🎯 Uma única parada de Tab: ativo → último focado → primeiro */
+	useEffect(() => {
+		const el = container.current;
+		if (!enabled || !el) return;
+		tabStops(items(), state.current);
+
+		const onFocus = (e: FocusEvent) =>
+			rovingFocusIn(e, items(), state.current);
+		el.addEventListener('focusin', onFocus);
+		return () => el.removeEventListener('focusin', onFocus);
+	});
+
+	return useCallback(
+		(e: KeyboardEvent) => {
+			if (enabled) rovingKey(e, items(), orientation, state.current);
+		},
+		[items, orientation, enabled],
+	);
+}
@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+	hashLocation,
+	historyLocation,
+	isRouteActive,
+	navigate,
+	toRoutePath,
+} from './location';
+
+describe('toRoutePath', () => {
+	it.each([
+		['/', '/'],
+		['', '/'],
+		['/a/b', '/a/b'],
+		['a/b', '/a/b'],
+		['/a/b/', '/a/b'],
+		['/a/b//', '/a/b'],
+		['/a?x=1', '/a'],
+		['/a/?x=1#topo', '/a'],
+		['/?x=1', '/'],
+		['#/a/b/', '/a/b'],
+		['#!/a?x=1', '/a'],
+		['https://example.com/a/b/?q=1', '/a/b'],
+		['//example.com/a', '/a'],
+	])('%j → %j', (href, path) => {
+		expect(toRoutePath(href)).toBe(path);
+	});
+
+	it.each([
+		['a/b', '/x/y', '/x/a/b'],
+		['a/b', '/x/y/', '/x/y/a/b'],
+		['../c', '/x/y/z', '/x/c'],
+		['./c?x=1', '/x/y', '/x/c'],
+		['', '/x/y?tab=1', '/x/y'],
+		['a', '#/x/y', '/x/a'],
+		['/a', '/x/y', '/a'],
+	])('relativo %j contra %j → %j', (href, base, path) => {
+		expect(toRoutePath(href, base)).toBe(path);
+	});
+});
+
+describe('isRouteActive', () => {
+	it('sem href/route nunca casa', () => {
+		expect(isRouteActive({}, '/a')).toBe(false);
+	});
+
+	it('exact (padrão) ignora barra final e query string', () => {
+		expect(isRouteActive({ href: '/a/' }, '/a')).toBe(true);
+		expect(isRouteActive({ href: '/a' }, '/a/?tab=2')).toBe(true);
+		expect(isRouteActive({ href: '/a?tab=1' }, '/a')).toBe(true);
+		expect(isRouteActive({ href: '/a' }, '/a/b')).toBe(false);
+		expect(isRouteActive({ href: '/' }, '/a')).toBe(false);
+	});
+
+	it('href relativo resolve contra a localização atual', () => {
+		expect(isRouteActive({ href: 'b' }, '/a/b')).toBe(true);
+		expect(isRouteActive({ href: './b?x=1' }, '/a/b')).toBe(true);
+		expect(isRouteActive({ href: 'b' }, '/a/')).toBe(false);
+		expect(
+			isRouteActive({ href: '../b', match: 'prefix' }, '/a/b/c'),
+		).toBe(true);
+	});
+
+	it('route tem precedência sobre href', () => {
+		expect(isRouteActive({ href: '/x', route: '/a' }, '/a')).toBe(
+			true,
+		);
+		expect(isRouteActive({ href: '/a', route: '/x' }, '/a')).toBe(
+			false,
+		);
+	});
+
+	it('prefix casa descendentes por segmento', () => {
+		const item = { href: '/a', match: 'prefix' as const };
+
+		expect(isRouteActive(item, '/a')).toBe(true);
+		expect(isRouteActive(item, '/a/')).toBe(true);
+		expect(isRouteActive(item, '/a/b/c')).toBe(true);
+		expect(isRouteActive(item, '/a/b?x=1')).toBe(true);
+		expect(isRouteActive(item, '/ab')).toBe(false);
+		expect(isRouteActive(item, '/')).toBe(false);
+		expect(
+			isRouteActive({ href: '/a/', match: 'prefix' }, '/a/b'),
+		).toBe(true);
+		expect(
+			isRouteActive({ href: '/', match: 'prefix' }, '/x/y'),
+		).toBe(true);
+	});
+
+	it('função recebe os caminhos normalizados', () => {
+		const match = vi.fn(() => true);
+
+		expect(isRouteActive({ href: '#!/a/', match }, '/a/b/?x=1')).toBe(
+			true,
+		);
+		expect(match).toHaveBeenCalledWith('/a/b', '/a');
+	});
+});
+
+describe('origens de localização', () => {
+	afterEach(() => {
+		history.replaceState(null, '', '/');
+	});
+
+	it('historyLocation acompanha navigate()', () => {
+		const source = historyLocation();
+		const notify = vi.fn();
+		const unsubscribe = source.subscribe(notify);
+
+		navigate('/a/b?x=1');
+		expect(source.get()).toBe('/a/b');
+		expect(notify).toHaveBeenCalledTimes(1);
+
+		unsubscribe();
+		navigate('/c', true);
+		expect(source.get()).toBe('/c');
+		expect(notify).toHaveBeenCalledTimes(1);
+	});
+
+	it('hashLocation remove `#`/`#!` e assume `/` sem hash', () => {
+		const source = hashLocation();
+
+		expect(source.get()).toBe('/');
+		history.replaceState(null, '', '/#!/a/b');
+		expect(source.get()).toBe('/a/b');
+		history.replaceState(null, '', '/#/c');
+		expect(source.get()).toBe('/c');
+	});
+});
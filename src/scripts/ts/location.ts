@@ -0,0 +1,129 @@
+/**
+ * location — Origens de localização e casamento de rotas (sem framework).
+ *
+ * @description
+ * A origem da localização é plugável (`ILocationSource`) e selecionada por
+ * `PageZone` (`location`, herdada pelo escopo):
+ * - `historyLocation()` (padrão): `location.pathname`; atualiza em `popstate`
+ *   e em `navigate()` (History API).
+ * - `hashLocation()`: `location.hash` sem `#`/`#!`; atualiza em `hashchange`.
+ * - `routerLocation({ get, subscribe })`: roteador do consumidor.
+ *
+ * Itens (`ButtonX`/`MenuX` de um `NavIcon`) declaram `href` ou `route` e o
+ * modo de casamento `match`:
+ * - `exact` (padrão): mesma rota (barra final ignorada).
+ * - `prefix`: mesma rota ou descendente por segmento (`/a` casa `/a/b`, não `/ab`).
+ * - função `(location, route) => boolean`: critério próprio.
+ *
+ * Consumido pelo hook `useLocation` (Preact) e pelo renderizador vanilla.
+ *
+ * @example
+ * const active = isRouteActive(item, hashLocation().get());
+ */
+/** Origem plugável da localização atual */
+export interface ILocationSource {
+	name: string;
+	get: () => string;
+	subscribe: (notify: () => void) => () => void;
+}
+
+/** Modo de casamento de rota */
+export type TRouteMatch =
+	| 'exact'
+	| 'prefix'
+	| ((location: string, route: string) => boolean);
+
+/** Props de rota aceitas pelos itens */
+export interface IRouteItem {
+	href?: string;
+	route?: string;
+	match?: TRouteMatch;
+}
+
+/** Evento disparado por `navigate()` (History API não notifica `pushState`) */
+const NAVIGATE_EVENT = 'jcem:navigate';
+
+const hasWindow = () => typeof window !== 'undefined';
+
+/** 🧭 History API: `location.pathname` */
+export const historyLocation = (): ILocationSource => ({
+	name: 'history',
+	get: () => (hasWindow() ? window.location.pathname : '/'),
+	subscribe: (notify) => {
+		if (!hasWindow()) return () => {};
+		window.addEventListener('popstate', notify);
+		window.addEventListener(NAVIGATE_EVENT, notify);
+		return () => {
+			window.removeEventListener('popstate', notify);
+			window.removeEventListener(NAVIGATE_EVENT, notify);
+		};
+	},
+});
+
+/** #️⃣ Hash: `#/rota` ou `#!/rota` */
+export const hashLocation = (): ILocationSource => ({
+	name: 'hash',
+	get: () =>
+		hasWindow() ?
+			window.location.hash.replace(/^#!?/, '') || '/'
+		:	'/',
+	subscribe: (notify) => {
+		if (!hasWindow()) return () => {};
+		window.addEventListener('hashchange', notify);
+		return () => window.removeEventListener('hashchange', notify);
+	},
+});
+
+/** 🔌 Roteador do consumidor (ex.: `router.path`, `router.listen`) */
+export const routerLocation = ({
+	name = 'router',
+	get,
+	subscribe,
+}: Omit<ILocationSource, 'name'> & {
+	name?: string;
+}): ILocationSource => ({
+	name,
+	get,
+	subscribe,
+});
+
+/** ➡️ Navega pela History API notificando as origens `historyLocation` */
+export function navigate(to: string, replace = false) {
+	if (!hasWindow()) return;
+	history[replace ? 'replaceState' : 'pushState'](null, '', to);
+	window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+/** ✂️ Normaliza href/rota para caminho comparável (`/a/b`); relativos (`a/b`, `../c`) resolvem contra `base` */
+export function toRoutePath(href: string, base = '/') {
+	let path = href.trim();
+	if (path.startsWith('#')) path = path.replace(/^#!?/, '');
+	if (!path.startsWith('/') || path.startsWith('//')) {
+		try {
+			const from = base.startsWith('/') ? base : toRoutePath(base);
+			path = new URL(path, `http://localhost${from}`).pathname;
+		} catch {
+			return '';
+		}
+	}
+	path = path.split(/[?#]/)[0];
+	if (!path.startsWith('/')) path = `/${path}`;
+	return path.length > 1 ? path.replace(/\/+$/, '') : path;
+}
+
+/** 🎯 Rota de um item casa com a localização atual? */
+export function isRouteActive(item: IRouteItem, location: string) {
+	const target = item.route ?? item.href;
+	if (!target) return false;
+	const route = toRoutePath(target, location);
+	const here = toRoutePath(location);
+	const { match = 'exact' } = item;
+
+	if (typeof match === 'function') return match(here, route);
+	if (match === 'prefix') {
+		return (
+			route === '/' || here === route || here.startsWith(`${route}/`)
+		);
+	}
+	return here === route;
+}
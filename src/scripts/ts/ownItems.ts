@@ -0,0 +1,17 @@
+/**
+ * ownItems — Itens focáveis do próprio nível de uma lista (sem framework).
+ *
+ * @description
+ * `ButtonX` direto ou gatilho de `MenuX` de cada `li`, ignorando painéis
+ * aninhados. Usado por `useRovingFocus`, `MenuX` e pelo renderizador vanilla.
+ */
+
+/** Seletor do item focável (ButtonX direto ou gatilho de MenuX) */
+const ITEM =
+	":scope > [class*='btb-jcem'], :scope > .menu-jcem-wrapper > [class*='btb-jcem']";
+
+/** 🔎 Itens do próprio nível de uma lista (ignora painéis aninhados) */
+export const ownItems = (list: Element | null) =>
+	Array.from(list?.children ?? []).flatMap((li) =>
+		Array.from(li.querySelectorAll<HTMLElement>(ITEM)).slice(0, 1),
+	);
@@ -0,0 +1,247 @@
+/**
+ * react — Adaptador React dos componentes (sem Preact).
+ *
+ * @description
+ * `PageZone`, `HeaderZone`, `HeaderBar`, `NavIcon`, `MenuX`, `ButtonX`,
+ * `FooterZone` e `ContentWrapper` como componentes React, com os mesmos
+ * contratos de props e a mesma saída de classes do renderizador vanilla
+ * (`@ts/vanilla`), que compartilha as variantes dos componentes Preact.
+ *
+ * ```tsx
+ * import { PageZone, HeaderZone, HeaderBar, ContentWrapper } from '@ts/react';
+ *
+ * <PageZone left={{ itens }} drawerBelow="md">
+ * 	<HeaderZone>
+ * 		<HeaderBar title="App" right={[{ icon: 'fas gear', href: '/config' }]} />
+ * 	</HeaderZone>
+ * 	<ContentWrapper>
+ * 		<App />
+ * 	</ContentWrapper>
+ * </PageZone>
+ * ```
+ *
+ * @behavior
+ * - Componentes do adaptador aninhados (`HeaderZone` no `PageZone`,
+ *   `HeaderBar` no `HeaderZone`...) compõem uma única view vanilla; demais
+ *   elementos React entram por portal, com o escopo herdado.
+ * - Props de conteúdo (`title`, `subtitle`, `logo`, `searchComponent`,
+ *   itens livres do `HeaderBar`, `children` das zonas) aceitam `ReactNode`.
+ * - Handlers (`onClick`...) recebem o evento nativo do DOM.
+ *
+ * @dependencies
+ * - react + react-dom (do consumidor); sem `preact` no bundle.
+ *
+ * @see {@link useDomView}
+ */
+import {
+	Children,
+	isValidElement,
+	ReactElement,
+	ReactNode,
+} from 'react';
+import * as dom from '../vanilla';
+import { TDomContent, TDomView } from '../vanilla';
+import { TSlot, useDomView } from './useDomView';
+
+export {
+	DomScopeContext,
+	useDomView,
+	type TSlot,
+} from './useDomView';
+
+/** Componente do adaptador: renderiza a view ou a fornece ao ancestral */
+export type TAdapter<P> = ((props: P) => ReactElement) & {
+	displayName: string;
+	toView: (props: P, slot: TSlot) => TDomContent;
+};
+
+/** Props de conteúdo substituídas por `ReactNode` */
+type TReactContent<P, K extends keyof P> = dom.TDomOmit<P, K> & {
+	[key in K]?: ReactNode;
+};
+
+/** Zonas: `children` React */
+type TZoneProps<P> = TReactContent<P, 'children' & keyof P>;
+
+/** 🏭 Componente React a partir da conversão props → view vanilla */
+function adapter<P>(
+	name: string,
+	toView: (props: P, slot: TSlot) => TDomContent,
+): TAdapter<P> {
+	const Component = (props: P) =>
+		useDomView((slot) => toView(props, slot));
+	return Object.assign(Component, { displayName: name, toView });
+}
+
+/** 🧬 Elemento de um componente do adaptador */
+const isAdapter = (
+	node: ReactNode,
+): node is ReactElement<unknown, TAdapter<unknown>> =>
+	isValidElement(node) &&
+	typeof node.type === 'function' &&
+	'toView' in node.type;
+
+/** 🧩 Conteúdo React → conteúdo vanilla (adaptadores viram views, o resto slots) */
+export function toContent(
+	node: ReactNode,
+	slot: TSlot,
+): TDomContent | undefined {
+	if (node == null || typeof node === 'boolean') return undefined;
+	if (typeof node === 'string' || typeof node === 'number')
+		return node;
+	if (isAdapter(node)) return node.type.toView(node.props, slot);
+	if (!Array.isArray(node) && isValidElement(node)) return slot(node);
+	return Children.toArray(node).map((child) =>
+		toContent(child, slot),
+	);
+}
+
+/** 🔘 ButtonX */
+export type TButtonX = dom.TDomButtonX;
+export const ButtonX = adapter<TButtonX>('ButtonX', (props) =>
+	dom.ButtonX(props),
+);
+
+/** 🌟 MenuX */
+export type TMenuX = dom.IDomMenuX;
+export const MenuX = adapter<TMenuX>('MenuX', (props) =>
+	dom.MenuX(props),
+);
+
+/** 🧭 NavIcon */
+export type TNavIcon = dom.IDomNavIcon;
+export const NavIcon = adapter<TNavIcon>('NavIcon', (props) =>
+	dom.NavIcon(props),
+);
+
+/** 🏷️ HeaderBar: marca, busca e itens livres aceitam `ReactNode` */
+export type THeaderBarItem =
+	| Exclude<dom.TDomBarItem, TDomContent>
+	| ReactNode;
+export type THeaderBar = dom.TDomOmit<
+	TReactContent<
+		dom.IDomHeaderBar,
+		'title' | 'subtitle' | 'logo' | 'searchComponent'
+	>,
+	'left' | 'center' | 'right'
+> & {
+	left?: THeaderBarItem[];
+	center?: THeaderBarItem[];
+	right?: THeaderBarItem[];
+};
+export const HeaderBar = adapter<THeaderBar>(
+	'HeaderBar',
+	(
+		{
+			title,
+			subtitle,
+			logo,
+			searchComponent,
+			left,
+			center,
+			right,
+			...props
+		},
+		slot,
+	) => {
+		/** Descritores (ButtonX/MenuX/breadcrumbs) seguem; elementos React viram slots */
+		const items = (list?: THeaderBarItem[]) =>
+			list?.map((item) =>
+				isValidElement(item) || Array.isArray(item) ?
+					toContent(item, slot)
+				:	(item as dom.TDomBarItem),
+			);
+		return dom.HeaderBar({
+			...props,
+			title: toContent(title, slot),
+			subtitle: toContent(subtitle, slot),
+			logo: toContent(logo, slot),
+			searchComponent: toContent(searchComponent, slot),
+			left: items(left),
+			center: items(center),
+			right: items(right),
+		});
+	},
+);
+
+/** 🔥 HeaderZone */
+export type THeaderZone = TZoneProps<dom.IDomHeaderZone>;
+export const HeaderZone = adapter<THeaderZone>(
+	'HeaderZone',
+	({ children, ...props }, slot) =>
+		dom.HeaderZone({ ...props, children: toContent(children, slot) }),
+);
+
+/** 📄 ContentWrapper */
+export type TContentWrapper = TZoneProps<dom.IDomContentWrapper>;
+export const ContentWrapper = adapter<TContentWrapper>(
+	'ContentWrapper',
+	({ children, ...props }, slot) =>
+		dom.ContentWrapper({
+			...props,
+			children: toContent(children, slot),
+		}),
+);
+
+/** 🔥 FooterZone */
+export type TFooterZone = TZoneProps<dom.IDomFooterZone>;
+export const FooterZone = adapter<TFooterZone>(
+	'FooterZone',
+	({ children, ...props }, slot) =>
+		dom.FooterZone({ ...props, children: toContent(children, slot) }),
+);
+
+/** 🚀 PageZone: zonas declaradas como filhos, como no componente */
+export type TPageZone = dom.TDomOmit<
+	dom.IDomPageZone,
+	'header' | 'content' | 'footer'
+> & { children?: ReactNode };
+export const PageZone = adapter<TPageZone>(
+	'PageZone',
+	({ children, ...props }, slot): TDomView =>
+		(scope) => {
+			const childs = Children.toArray(children);
+			const zone = <P>(type: TAdapter<P>) =>
+				childs.find(
+					(child): child is ReactElement<P> =>
+						isValidElement(child) && child.type === type,
+				)?.props;
+
+			const header = zone(HeaderZone);
+			const content = zone(ContentWrapper);
+			const footer = zone(FooterZone);
+
+			/** Filhos fora das zonas: conteúdo, com aviso (ContentWrapper é obrigatório) */
+			const loose = childs.filter(
+				(child) =>
+					!isValidElement(child) ||
+					!(
+						[HeaderZone, ContentWrapper, FooterZone] as unknown[]
+					).includes(child.type),
+			);
+			if (loose.length) {
+				scope.logger.warn(
+					`[PageZone] (${props.escopo ?? 'pagezone'}) Filhos fora de HeaderZone/ContentWrapper/FooterZone foram inseridos no conteúdo.`,
+				);
+			}
+
+			return dom.PageZone({
+				...props,
+				header: header && {
+					...header,
+					children: toContent(header.children, slot),
+				},
+				content: {
+					...content,
+					children: [
+						toContent(content?.children, slot),
+						toContent(loose, slot),
+					],
+				},
+				footer: footer && {
+					...footer,
+					children: toContent(footer.children, slot),
+				},
+			})(scope);
+		},
+);
@@ -0,0 +1,151 @@
+/**
+ * useDomView — Renderização de uma view vanilla dentro da árvore React.
+ *
+ * @description
+ * O adaptador React não reimplementa os componentes: renderiza as views de
+ * `@ts/vanilla` (mesmo markup, classes e `data-*`) em um `<jcem-host>`
+ * (`display: contents`) e insere o conteúdo React livre por portais nos
+ * `slot()` da view, cada um com o escopo do PageZone em que foi inserido.
+ *
+ * - Renderização destacada durante o render do React; reconciliação (`morph`)
+ *   no layout effect, preservando os nós e o conteúdo dos slots.
+ * - Estado local das views (menus, gavetas, recolhimento) re-renderiza o
+ *   componente React dono.
+ * - Componentes aninhados em conteúdo livre herdam o escopo pelo contexto.
+ *
+ * @see {@link mount}
+ */
+import {
+	createContext,
+	createElement,
+	ReactElement,
+	ReactNode,
+	useContext,
+	useEffect,
+	useLayoutEffect,
+	useReducer,
+	useRef,
+	useState,
+} from 'react';
+import { createPortal } from 'react-dom';
+import {
+	createStore,
+	IDomScope,
+	IDomStore,
+	listen,
+	reconcile,
+	renderNodes,
+	rootScope,
+	slot,
+	SLOT_TAG,
+	TDomContent,
+	TDomView,
+} from '../vanilla';
+
+/** Escopo vanilla do ponto de inserção (herdado por componentes aninhados) */
+export const DomScopeContext = createContext<IDomScope | null>(null);
+
+/** Conteúdo React → view com o ponto de inserção do portal */
+export type TSlot = (node: ReactNode) => TDomView;
+
+/** Conteúdo React inserido em um slot na última renderização */
+interface ISlotEntry {
+	name: string;
+	node: ReactNode;
+	scope: IDomScope;
+}
+
+/** 🔎 Slots da própria view (exclui os de hosts aninhados) */
+function findSlots(host: Element) {
+	const found: Record<string, Element> = {};
+	host.querySelectorAll(SLOT_TAG).forEach((el) => {
+		const owner = el.parentElement?.closest(SLOT_TAG);
+		if (!owner || !host.contains(owner)) {
+			found[el.getAttribute('name')!] = el;
+		}
+	});
+	return found;
+}
+
+/** Mesmos slots (por nome e elemento) */
+const sameSlots = (
+	a: Record<string, Element>,
+	b: Record<string, Element>,
+) =>
+	Object.keys(a).length === Object.keys(b).length &&
+	Object.keys(a).every((name) => a[name] === b[name]);
+
+/** 🧩 Renderiza a view construída por `build` e os portais dos slots */
+export function useDomView(
+	build: (slot: TSlot) => TDomContent,
+): ReactElement {
+	const parent = useContext(DomScopeContext);
+	const [, rerender] = useReducer((n: number) => n + 1, 0);
+	const host = useRef<HTMLElement>(null);
+	const nodes = useRef<Node[]>([]);
+	const store = useRef<IDomStore | null>(null);
+	store.current ??= createStore(rerender);
+	const [targets, setTargets] = useState<Record<string, Element>>({});
+
+	/** Slots nomeados pela ordem de construção (estáveis entre renderizações) */
+	const slots: ISlotEntry[] = [];
+	let count = 0;
+	const toSlot: TSlot = (node) => {
+		const name = `s${count++}`;
+		return (scope) => {
+			slots.push({ name, node, scope });
+			return slot(name);
+		};
+	};
+
+	const scope = rootScope(store.current, {}, parent ?? undefined);
+	const next = renderNodes(build(toSlot), scope);
+
+	/** 🔁 Aplica a renderização e localiza os slots montados */
+	useLayoutEffect(() => {
+		nodes.current = reconcile(host.current!, nodes.current, next);
+		const found = findSlots(host.current!);
+		if (!sameSlots(found, targets)) setTargets(found);
+	});
+
+	/** 🧹 Remove os nós ao desmontar */
+	useLayoutEffect(
+		() => () => {
+			nodes.current.forEach((node) =>
+				node.parentNode?.removeChild(node),
+			);
+			nodes.current = [];
+		},
+		[],
+	);
+
+	/** 🎧 Radio, Escape, clique fora e localização */
+	useEffect(() => {
+		const unlisten = listen(store.current!, (node) =>
+			nodes.current.some((n) => n.contains(node)),
+		);
+		const unsubscribe = scope.location.subscribe(rerender);
+		return () => {
+			unlisten();
+			unsubscribe();
+		};
+	}, [scope.location]);
+
+	return createElement(
+		'jcem-host',
+		{ ref: host, style: { display: 'contents' } },
+		slots
+			.filter(({ name }) => targets[name])
+			.map(({ name, node, scope }) =>
+				createPortal(
+					createElement(
+						DomScopeContext.Provider,
+						{ value: scope },
+						node,
+					),
+					targets[name],
+					name,
+				),
+			),
+	);
+}
@@ -0,0 +1,126 @@
+/**
+ * rovingFocus — Roving tabindex e teclado de um grupo de itens (sem framework).
+ *
+ * @description
+ * Núcleo compartilhado por `useRovingFocus` (Preact) e pelo renderizador
+ * vanilla: paradas de Tab (`tabStops`) e tratamento das teclas (`rovingKey`).
+ * O estado (item ativo e buffer do type-ahead) fica com quem chama.
+ *
+ * @see {@link useRovingFocus}
+ */
+import { ownItems } from './ownItems';
+
+/** Intervalo (ms) que mantém o buffer do type-ahead */
+const TYPEAHEAD_MS = 500;
+
+/** Estado do grupo: item ativo (-1 = ainda não resolvido) e type-ahead */
+export interface IRovingState {
+	current: number;
+	typed: { text: string; at: number };
+}
+
+/** Estado inicial de um grupo */
+export const rovingState = (): IRovingState => ({
+	current: -1,
+	typed: { text: '', at: 0 },
+});
+
+/** Legenda usada no type-ahead */
+const captionOf = (el: HTMLElement) =>
+	(
+		el.textContent?.trim() ||
+		el.getAttribute('aria-label') ||
+		''
+	).toLowerCase();
+
+/** 🎯 Uma única parada de Tab: ativo → último focado → `aria-current` → primeiro */
+export function tabStops(list: HTMLElement[], state: IRovingState) {
+	if (state.current < 0 || state.current >= list.length) {
+		state.current = Math.max(
+			list.findIndex((i) => i.hasAttribute('aria-current')),
+			0,
+		);
+	}
+	list.forEach((item, i) => {
+		item.tabIndex = i === state.current ? 0 : -1;
+	});
+}
+
+/** 👁️ Item focado vira a parada de Tab */
+export function rovingFocusIn(
+	e: FocusEvent,
+	list: HTMLElement[],
+	state: IRovingState,
+) {
+	const i = list.indexOf(e.target as HTMLElement);
+	if (i < 0) return;
+	state.current = i;
+	tabStops(list, state);
+}
+
+/** ⌨️ Setas, Home/End, Enter/Espaço e type-ahead dentro do grupo */
+export function rovingKey(
+	e: KeyboardEvent,
+	list: HTMLElement[],
+	orientation: 'vertical' | 'horizontal',
+	state: IRovingState,
+) {
+	const idx = list.indexOf(e.target as HTMLElement);
+	if (idx < 0) return;
+
+	const vertical = orientation === 'vertical';
+	const prev = vertical ? 'ArrowUp' : 'ArrowLeft';
+	const next = vertical ? 'ArrowDown' : 'ArrowRight';
+	const into = vertical ? 'ArrowRight' : 'ArrowDown';
+	const target = list[idx];
+	const menu = target.parentElement?.classList.contains(
+		'menu-jcem-wrapper',
+	);
+
+	let to = -1;
+	if (e.key === prev) to = (idx - 1 + list.length) % list.length;
+	else if (e.key === next) to = (idx + 1) % list.length;
+	else if (e.key === 'Home') to = 0;
+	else if (e.key === 'End') to = list.length - 1;
+	else if (
+		e.key === 'Enter' ||
+		e.key === ' ' ||
+		(menu && e.key === into)
+	) {
+		e.preventDefault();
+		e.stopPropagation();
+		target.click();
+		if (menu) {
+			// Entra no painel após a abertura (peer-checked)
+			requestAnimationFrame(() =>
+				ownItems(
+					target.parentElement!.querySelector(
+						':scope > [data-menu] > ul',
+					),
+				)[0]?.focus(),
+			);
+		}
+		return;
+	} else if (
+		e.key.length === 1 &&
+		!e.ctrlKey &&
+		!e.metaKey &&
+		!e.altKey
+	) {
+		const now = Date.now();
+		const t = state.typed;
+		t.text =
+			(now - t.at > TYPEAHEAD_MS ? '' : t.text) + e.key.toLowerCase();
+		t.at = now;
+		const order = [...list.slice(idx + 1), ...list.slice(0, idx + 1)];
+		// Mesma tecla repetida percorre os itens com aquela inicial
+		const q = /^(.)\1+$/.test(t.text) ? t.text[0] : t.text;
+		const hit = order.find((i) => captionOf(i).startsWith(q));
+		to = hit ? list.indexOf(hit) : -1;
+	}
+
+	if (to < 0) return;
+	e.preventDefault();
+	e.stopPropagation();
+	list[to].focus();
+}
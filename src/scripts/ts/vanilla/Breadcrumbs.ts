@@ -0,0 +1,136 @@
+/**
+ * Breadcrumbs (vanilla) — Trilha de navegação com a mesma saída do componente.
+ *
+ * @description
+ * Primeira e última migalhas fixas; as intermediárias além de `maxItems`
+ * são recolhidas em um `MenuX` ("…"), como na renderização inicial do
+ * componente `Breadcrumbs`. O recolhimento adicional por overflow depende
+ * de medição e não é aplicado.
+ *
+ * @see {@link Breadcrumbs}
+ */
+import { twMerge } from 'tailwind-merge';
+import {
+	getCaption,
+	resolveClassName,
+} from '@mod/jcemTS/src/ts/common/ui';
+import type { TIcon } from '@comp/IconProvider/IconGlyph';
+import { h, TDomProps } from './dom';
+import { renderIcon } from './icons';
+import { MenuX } from './MenuX';
+import type { IDomScope } from './scope';
+import type { TDomView } from './view';
+
+/** Migalha */
+export type TDomCrumb = {
+	caption?: string;
+	label?: string;
+	icon?: TIcon;
+	href?: string;
+};
+
+/** Props do Breadcrumbs */
+export interface IDomBreadcrumbs extends TDomProps {
+	crumbs: TDomCrumb[];
+	maxItems?: number;
+	ariaLabel?: string;
+	escopo?: string;
+	className?: string | (() => string);
+}
+
+/** 🍞 Breadcrumbs */
+export const Breadcrumbs =
+	(props: IDomBreadcrumbs): TDomView =>
+	(scope) =>
+		renderBreadcrumbs(props, scope);
+
+/** Renderização do Breadcrumbs no escopo */
+function renderBreadcrumbs(
+	{
+		crumbs = [],
+		maxItems = 4,
+		ariaLabel = 'Breadcrumb',
+		escopo = 'crumbs',
+		className,
+		...props
+	}: IDomBreadcrumbs,
+	scope: IDomScope,
+) {
+	if (!crumbs?.length) {
+		scope.logger.warn(
+			`[Breadcrumbs] (${escopo}) criado sem migalhas.`,
+		);
+		return null;
+	}
+
+	/** Migalhas intermediárias recolhidas (primeira e última são fixas) */
+	const middle = Math.max(crumbs.length - 2, 0);
+	const hidden = Math.min(
+		Math.max(crumbs.length - Math.max(maxItems, 2), 0),
+		middle,
+	);
+
+	const renderCrumb = (crumb: TDomCrumb, current: boolean) => {
+		const caption = getCaption(crumb.caption, crumb.label);
+		return h(
+			crumb.href ? 'a' : 'span',
+			{
+				href: crumb.href,
+				'aria-current': current ? 'page' : undefined,
+			},
+			crumb.icon &&
+				renderIcon(
+					scope.icons,
+					crumb.icon,
+					'h-3.5 w-3.5',
+					scope.logger,
+				),
+			caption && h('span', { class: 'truncate' }, caption),
+		);
+	};
+
+	const last = crumbs.length - 1;
+
+	return h(
+		'nav',
+		{
+			...props,
+			'aria-label': ariaLabel,
+			'data-collapsed': hidden,
+			className: twMerge(
+				'breadcrumbs crumbs-jcem min-w-0 overflow-visible py-0',
+				`crumbs-jcem-${escopo}`,
+				resolveClassName(className),
+			),
+		},
+		h(
+			'ol',
+			{ className: 'flex-nowrap whitespace-nowrap' },
+			h('li', null, renderCrumb(crumbs[0], last === 0)),
+			hidden > 0 &&
+				h(
+					'li',
+					null,
+					MenuX({
+						escopo: `${escopo}-more`,
+						icon: 'fas ellipsis',
+						ariaLabel: `Mostrar ${hidden} níveis ocultos`,
+						compact: true,
+						size: 'xs',
+						itens: crumbs.slice(1, 1 + hidden).map((crumb) => ({
+							kind: 'button' as const,
+							caption: getCaption(crumb.caption, crumb.label),
+							icon: crumb.icon,
+							center: false,
+							href: crumb.href,
+						})),
+					})(scope),
+				),
+			crumbs
+				.slice(1 + hidden)
+				.map((crumb, i) =>
+					h('li', null, renderCrumb(crumb, 1 + hidden + i === last)),
+				),
+		),
+	);
+}
@@ -0,0 +1,312 @@
+/**
+ * ButtonX (vanilla) — Botão com a mesma saída do componente `ButtonX`.
+ *
+ * @description
+ * Recebe as props neutras do `ButtonX` e devolve os nós DOM com o mesmo
+ * markup, classes (`ButtonXVariants`) e atributos `data-*`/`aria-*`:
+ * ícones esquerdo/direito, legenda, badge, loading, rota e modo toggle
+ * (checkbox oculto + `label[for]`, `aria-pressed`).
+ *
+ * @see {@link ButtonX}
+ */
+import { twMerge } from 'tailwind-merge';
+import {
+	getCaption,
+	resolveClassName,
+} from '@mod/jcemTS/src/ts/common/ui';
+import { isTrue } from '@mod/jcemTS/src/ts/common/logicos';
+import {
+	buttonVariants,
+	iconSizeMap,
+} from '@comp/ButtonX/ButtonXVariants';
+import type { TIcon } from '@comp/IconProvider/IconGlyph';
+import type { IRouteItem } from '../location';
+import { h, TDomChild, TDomProps } from './dom';
+import { renderIcon } from './icons';
+import { controllable, IDomScope, uid } from './scope';
+import type { TDomView } from './view';
+
+/** Ícones lado esquerdo e direito */
+export type TDomButtonIcon = {
+	left?: TIcon;
+	right?: TIcon;
+};
+
+/** Props do ButtonX */
+export type TDomButtonX = TDomProps & {
+	as?: 'button' | 'a' | 'label';
+	caption?: string;
+	label?: string;
+	icon?: TIcon | TDomButtonIcon;
+	ariaLabel?: string;
+	htmlFor?: string;
+	href?: string;
+	escopo?: string;
+	center?: boolean;
+	compact?: boolean;
+	size?: keyof typeof iconSizeMap;
+	loading?: boolean;
+	badge?: number | string | boolean;
+	badgeLabel?: string;
+	pressed?: boolean;
+	defaultPressed?: boolean;
+	onPressedChange?: (pressed: boolean) => void;
+	pressedIcon?: TIcon | TDomButtonIcon;
+	pressedCaption?: string;
+	route?: IRouteItem['route'];
+	match?: IRouteItem['match'];
+	className?: string | (() => string);
+	onClick?: (e: MouseEvent) => void;
+	onKeyDown?: (e: KeyboardEvent) => void;
+};
+
+/** Normalização de qualquer formato de entrada de ícone */
+const normalizeIcon = (
+	icon: TIcon | TDomButtonIcon | undefined,
+): TDomButtonIcon => {
+	if (!icon) return {};
+	if (
+		typeof icon === 'object' &&
+		('left' in icon || 'right' in icon)
+	) {
+		const { left, right } = icon as TDomButtonIcon;
+		return { left, right };
+	}
+	return { left: icon as TIcon };
+};
+
+/** 🔘 ButtonX */
+export const ButtonX =
+	(props: TDomButtonX): TDomView =>
+	(scope) =>
+		renderButtonX(props, scope);
+
+/** Renderização do ButtonX no escopo */
+function renderButtonX(
+	{
+		caption,
+		label,
+		icon,
+		ariaLabel,
+		htmlFor,
+		href,
+		as = htmlFor ? 'label'
+		: href ? 'a'
+		: 'button',
+		escopo,
+		center = true,
+		compact = false,
+		size = 'md',
+		loading = false,
+		badge,
+		badgeLabel,
+		pressed,
+		defaultPressed,
+		onPressedChange,
+		pressedIcon,
+		pressedCaption,
+		className,
+		...props
+	}: TDomButtonX,
+	scope: IDomScope,
+) {
+	caption = getCaption(caption, label);
+	// Rota é lida pelo NavIcon; não vai ao DOM
+	delete props.route;
+	delete props.match;
+	const { logger } = scope;
+
+	/** 🔘 Toggle: estado controlado ou não, refletido no checkbox oculto */
+	const toggle =
+		pressed !== undefined ||
+		defaultPressed !== undefined ||
+		!!onPressedChange;
+	const toggleId = `${props.id ?? uid(scope, 'btb')}-pressed`;
+	const [isPressed, setPressed] = controllable(
+		scope,
+		toggleId,
+		pressed,
+		!!defaultPressed,
+		onPressedChange,
+	);
+	if (toggle) {
+		as = 'label';
+		htmlFor = toggleId;
+	}
+
+	const iconSizeClass = iconSizeMap[size];
+	const icn = normalizeIcon(icon);
+	const has_licon = !!icn.left;
+	const has_ricon = !!icn.right && (has_licon || !!caption);
+	const has_cap = !!caption?.trim();
+
+	/** Lógica para centralização automática */
+	const shouldCenter =
+		center ||
+		(!has_licon && !has_ricon) ||
+		(has_licon && !has_cap && !has_ricon);
+
+	if (!ariaLabel && !has_cap) {
+		logger.warn(
+			'[ButtonX] — Falta ariaLabel: é obrigatório quando caption está ausente.',
+		);
+	}
+
+	const resolvedClass = twMerge(
+		buttonVariants({
+			size,
+			compact,
+			center: shouldCenter,
+			hasLeftIcon: has_licon,
+			hasRightIcon: has_ricon,
+			hasCaption: has_cap,
+		}),
+		`btb-jcem-${escopo ?? 'btb'}`,
+		resolveClassName(className),
+	);
+
+	const renderFaceIcon = (i: TIcon) =>
+		renderIcon(scope.icons, i, iconSizeClass, logger);
+
+	/** Atributos próprios de cada elemento */
+	const disabled = isTrue(props.disabled);
+	const blocked = disabled || loading;
+	const tagProps =
+		as === 'label' ?
+			{
+				htmlFor,
+				'aria-disabled': disabled || undefined,
+				disabled: undefined,
+			}
+		: as === 'a' ?
+			{
+				href: disabled ? undefined : href,
+				'aria-disabled': disabled || undefined,
+				tabIndex: disabled ? -1 : props.tabIndex,
+				disabled: undefined,
+			}
+		:	{ type: props.type ?? 'button' };
+
+	/** 🔔 Badge: ponto (`true`) ou contagem (zero/vazio não exibe) */
+	const hasBadge = badge === true || (!!badge && badge !== '0');
+	const dot = badge === true;
+	const count =
+		typeof badge === 'number' && badge > 99 ? '99+' : `${badge}`;
+	const badgeNode = () =>
+		hasBadge &&
+		h(
+			'div',
+			{
+				className: 'btb-jcem-badge',
+				'data-badge': dot ? 'dot' : 'count',
+			},
+			!dot && h('span', { 'aria-hidden': 'true' }, count),
+			h(
+				'span',
+				{ className: 'sr-only' },
+				badgeLabel ?? (dot ? 'novo' : count),
+			),
+		);
+
+	/** Face do botão (ícones + legenda); no toggle, uma por estado via `data-when` */
+	const renderFace = (
+		face: TDomButtonIcon,
+		cap: string | undefined,
+		when?: 'on' | 'off',
+	): TDomChild[] => {
+		const hasLeft = !!face.left;
+		const hasCap = !!cap?.trim();
+		const hasRight = !!face.right && (hasLeft || hasCap);
+		return [
+			(hasLeft || loading) &&
+				h(
+					'div',
+					{
+						className: hasBadge ? 'relative' : undefined,
+						'data-when': when,
+					},
+					loading ?
+						h('span', {
+							className: `loading loading-spinner ${iconSizeClass}`,
+							'aria-hidden': 'true',
+						})
+					:	renderFaceIcon(face.left!),
+					badgeNode(),
+				),
+			hasCap &&
+				h('span', { class: 'truncate', 'data-when': when }, cap),
+			hasRight &&
+				h('div', { 'data-when': when }, renderFaceIcon(face.right!)),
+		];
+	};
+	const dual = toggle && (!!pressedIcon || !!pressedCaption);
+
+	if (as === 'label' && !htmlFor) {
+		logger.warn(
+			'[ButtonX] — `as="label"` sem `htmlFor`: use `button` para ações.',
+		);
+	}
+
+	const button = h(
+		as,
+		{
+			...props,
+			...tagProps,
+			...(toggle && {
+				role: 'button',
+				tabIndex: props.tabIndex ?? 0,
+				'aria-pressed': isPressed,
+				'data-pressed': isPressed || undefined,
+				onKeyDown: (e: KeyboardEvent) => {
+					props.onKeyDown?.call(e.currentTarget, e);
+					if (e.defaultPrevented) return;
+					if (e.key !== 'Enter' && e.key !== ' ') return;
+					e.preventDefault();
+					e.stopPropagation();
+					(e.currentTarget as HTMLElement).click();
+				},
+			}),
+			onClick:
+				blocked ? (e: Event) => e.preventDefault() : props.onClick,
+			'aria-label': ariaLabel,
+			'aria-busy': loading || undefined,
+			'data-disabled': disabled || undefined,
+			'data-loading': loading || undefined,
+			className: twMerge(
+				resolvedClass,
+				hasBadge && !has_licon && 'relative',
+			),
+		},
+		!has_licon && !loading && badgeNode(),
+		dual ?
+			[
+				renderFace(icn, caption, 'off'),
+				renderFace(
+					pressedIcon ? normalizeIcon(pressedIcon) : icn,
+					pressedCaption ?? caption,
+					'on',
+				),
+			]
+		:	renderFace(icn, caption),
+	);
+
+	if (!toggle) return button;
+
+	return [
+		h('input', {
+			type: 'checkbox',
+			id: toggleId,
+			className: 'hidden jcem-toggle-input',
+			checked: isPressed,
+			disabled: blocked,
+			onChange: (e: Event) => {
+				const input = e.currentTarget as HTMLInputElement;
+				const next = input.checked;
+				// Mantém o DOM fiel ao estado até o re-render (modo controlado)
+				input.checked = isPressed;
+				setPressed(next);
+			},
+		}),
+		button,
+	];
+}
@@ -0,0 +1,48 @@
+/**
+ * ContentWrapper (vanilla) — Conteúdo principal do PageZone.
+ *
+ * @description
+ * `section.contentwrapper-jcem-className` (ver `SectionWrapperBase`), como o
+ * componente `ContentWrapper`.
+ *
+ * @see {@link ContentWrapper}
+ */
+import { IDomSection, renderSection } from './SectionWrapperBase';
+import type { IDomScope } from './scope';
+import type { TDomView } from './view';
+
+/** Props do ContentWrapper */
+export interface IDomContentWrapper extends IDomSection {}
+
+/** 📄 ContentWrapper */
+export const ContentWrapper =
+	(props: IDomContentWrapper): TDomView =>
+	(scope) =>
+		renderContentWrapper(props, scope);
+
+/** Renderização do ContentWrapper no escopo */
+export function renderContentWrapper(
+	{
+		escopo = 'content',
+		stack = false,
+		shadow = false,
+		container = false,
+		wrapperClass,
+		...props
+	}: IDomContentWrapper,
+	scope: IDomScope,
+) {
+	return renderSection(
+		{
+			as: 'section',
+			escopo,
+			stack,
+			shadow,
+			container,
+			wrapperClass,
+			...props,
+			className: 'contentwrapper-jcem-className',
+		},
+		scope,
+	);
+}
@@ -0,0 +1,97 @@
+/**
+ * EnclosureContent (vanilla) — Corpo do PageZone: navegações laterais + conteúdo.
+ *
+ * @description
+ * Mesma saída do componente `EnclosureContent`: slot lateral direto (push) ou
+ * trilho/gaveta com checkbox e backdrops (`label[for]`), mais o Escape que
+ * fecha o painel flutuante aberto.
+ *
+ * Foco inicial/retorno e swipe da gaveta não são aplicados.
+ *
+ * @see {@link EnclosureContent}
+ */
+import type { TNavSide } from '@comp/PageZone/PageZoneDrawer';
+import { h, TDomChild } from './dom';
+import { IDomNavSide, IDomScope, onEscape } from './scope';
+
+/** 🧭 Slot lateral: direto (push) ou trilho/gaveta com backdrop */
+function renderSide(
+	side: TNavSide,
+	node: TDomChild,
+	nav: IDomNavSide | undefined,
+	drawer: boolean,
+) {
+	if (!node) return null;
+
+	const overlay = nav?.expansion === 'overlay';
+	if (!nav || (!overlay && !drawer)) return node;
+
+	return h(
+		'div',
+		{
+			className: 'enclousure-jcem-slot',
+			'data-side': side,
+			'data-expansion': nav.expansion,
+			'data-expanded': String(nav.expanded),
+		},
+		drawer &&
+			h('input', {
+				type: 'checkbox',
+				id: nav.drawerId,
+				className: 'hidden enclousure-jcem-drawer',
+				checked: nav.drawerOpen,
+				onChange: (e: Event) => {
+					const input = e.currentTarget as HTMLInputElement;
+					const next = input.checked;
+					// Mantém o DOM fiel ao estado até o re-render
+					input.checked = nav.drawerOpen;
+					nav.setDrawerOpen(next);
+				},
+			}),
+		node,
+		overlay &&
+			h('label', {
+				htmlFor: nav.toggleId,
+				className: 'enclousure-jcem-backdrop',
+				'aria-hidden': 'true',
+			}),
+		drawer &&
+			h('label', {
+				htmlFor: nav.drawerId,
+				className: 'enclousure-jcem-drawer-backdrop',
+				'aria-hidden': 'true',
+			}),
+	);
+}
+
+/** 🧱 Renderização do corpo no escopo (navs publicadas pelo PageZone) */
+export function renderEnclosure(
+	navLeft: TDomChild,
+	navRight: TDomChild,
+	children: TDomChild,
+	scope: IDomScope,
+) {
+	const { left, right, drawer } = scope.navs;
+
+	/** ⎋ Escape fecha o trilho flutuante e a gaveta abertos */
+	for (const nav of [left, right]) {
+		if (nav?.expansion === 'overlay' && nav.expanded) {
+			onEscape(scope, () => nav.setExpanded(false));
+		}
+		if (drawer && nav?.drawerOpen) {
+			onEscape(scope, () => nav.setDrawerOpen(false));
+		}
+	}
+
+	return h(
+		'section',
+		{
+			className:
+				'enclousure-jcem relative flex w-full flex-1 min-h-full gap-2',
+			'data-drawer': drawer?.below,
+		},
+		renderSide('left', navLeft, left, !!drawer),
+		h('div', { className: 'flex-grow' }, children),
+		renderSide('right', navRight, right, !!drawer),
+	);
+}
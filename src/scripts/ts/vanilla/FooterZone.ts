@@ -0,0 +1,74 @@
+/**
+ * FooterZone (vanilla) — Rodapé do PageZone com a mesma saída do componente.
+ *
+ * @description
+ * `footer.fzone-jcem` (ver `SectionWrapperBase`) com `data-position` e
+ * `data-tabbar`, precedido do espaçador quando fora do fluxo.
+ * A altura do espaçador depende de medição e não é aplicada.
+ *
+ * @see {@link FooterZone}
+ */
+import clsx from 'clsx';
+import { positionMap } from '@comp/FooterZone/FooterZoneVariants';
+import { h, TDomOmit } from './dom';
+import { IDomSection, renderSection } from './SectionWrapperBase';
+import { IDomScope, uid } from './scope';
+import type { TDomView } from './view';
+
+/** Props do FooterZone */
+export interface IDomFooterZone
+	extends TDomOmit<IDomSection, 'as' | 'stack'> {
+	position?: 'static' | 'sticky' | 'fixed';
+	tabbar?: boolean;
+}
+
+/** 🔥 FooterZone */
+export const FooterZone =
+	(props: IDomFooterZone): TDomView =>
+	(scope) =>
+		renderFooterZone(props, scope);
+
+/** Renderização do FooterZone no escopo */
+export function renderFooterZone(
+	{
+		escopo = 'footer',
+		shadow = true,
+		container = false,
+		debug = false,
+		position = 'static',
+		tabbar = false,
+		children,
+		...props
+	}: IDomFooterZone,
+	scope: IDomScope,
+) {
+	const id = `${props.id ?? uid(scope, 'fzone')}`;
+	const reserve = position === 'fixed' || tabbar;
+
+	return [
+		reserve &&
+			h('div', {
+				'aria-hidden': 'true',
+				className: 'fzone-jcem-spacer',
+				'data-position': position,
+				'data-tabbar': tabbar || undefined,
+			}),
+		renderSection(
+			{
+				...props,
+				id,
+				escopo,
+				as: 'footer',
+				stack: true,
+				shadow,
+				container,
+				className: clsx('fzone-jcem', positionMap[position]),
+				'data-position': position,
+				'data-tabbar': tabbar || undefined,
+				debug,
+				children,
+			},
+			scope,
+		),
+	];
+}
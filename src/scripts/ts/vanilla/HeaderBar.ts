@@ -0,0 +1,407 @@
+/**
+ * HeaderBar (vanilla) — Barra de cabeçalho com a mesma saída do componente.
+ *
+ * @description
+ * Três zonas (`navbar-start`/`center`/`end`), marca (logo + título com nível
+ * de heading pelo aninhamento do PageZone), busca, breadcrumbs (`{ crumbs }`)
+ * e sequências de `ButtonX`/`MenuX` agrupadas em `NavIcon`.
+ * Botões da gaveta (`NavToggle`) no primeiro HeaderBar de um PageZone com
+ * `drawerBelow`. Roving tabindex na barra inteira, como no componente.
+ *
+ * Overflow no modo CSS do componente (`data-overflow="css"`): itens com
+ * `collapseBelow` migram para o menu "mais" por media query, sem medição.
+ *
+ * @see {@link HeaderBar}
+ */
+import { twMerge } from 'tailwind-merge';
+import clsx from 'clsx';
+import { resolveClassName } from '@mod/jcemTS/src/ts/common/ui';
+import {
+	shadowMap,
+	sizeMap,
+} from '@comp/HeaderBar/HeaderBarVariants';
+import {
+	DRAWER_BREAKPOINTS,
+	TDrawerBreakpoint,
+} from '@comp/PageZone/PageZoneDrawer';
+import { ownItems } from '../ownItems';
+import { h, TDomChild, TDomProps } from './dom';
+import { Breadcrumbs, IDomBreadcrumbs } from './Breadcrumbs';
+import { NavIcon, TDomItem } from './NavIcon';
+import { NavToggle } from './NavToggle';
+import { roving } from './roving';
+import { IDomScope, uid } from './scope';
+import { renderContent, TDomContent, TDomView } from './view';
+
+/** Prioridade de permanência na barra (menor migra primeiro para o "mais") */
+export type TDomBarPriority = {
+	priority?: number;
+	collapseBelow?: TDrawerBreakpoint;
+};
+
+/** Itens aceitos: ButtonX/MenuX, breadcrumbs ou conteúdo livre */
+export type TDomBarItem =
+	| (TDomItem & TDomBarPriority)
+	| IDomBreadcrumbs
+	| TDomContent;
+
+/** Props do HeaderBar */
+export interface IDomHeaderBar extends TDomProps {
+	classPart?: string;
+	title?: TDomContent;
+	subtitle?: TDomContent;
+	logo?: TDomContent;
+	logoAlt?: string;
+	logoHref?: string;
+	headingLevel?: 1 | 2 | 3 | 4 | 5 | 6;
+	left?: TDomBarItem[];
+	center?: TDomBarItem[];
+	right?: TDomBarItem[];
+	searchComponent?: TDomContent;
+	titleAlign?: 'left' | 'center' | 'right';
+	variant?: 'normal' | 'sticky' | 'ghost' | 'bordered';
+	sticky?: boolean;
+	size?: keyof typeof sizeMap;
+	shadow?: keyof typeof shadowMap;
+	compact?: boolean;
+	escopo?: string;
+	drawerToggles?: boolean;
+}
+
+/** Ordem dos breakpoints (menor → maior) */
+const BREAKPOINT_ORDER = Object.keys(
+	DRAWER_BREAKPOINTS,
+) as TDrawerBreakpoint[];
+
+/** Descritor (objeto simples), não nó nem view */
+const isDescriptor = (
+	item: TDomBarItem,
+): item is Record<string, unknown> =>
+	!!item &&
+	typeof item === 'object' &&
+	!Array.isArray(item) &&
+	!(item instanceof Node);
+
+/** 🧠 Item migrável (ButtonX/MenuX) */
+const isNavItem = (item: TDomBarItem) =>
+	isDescriptor(item) &&
+	('onClick' in item ||
+		'href' in item ||
+		'itens' in item ||
+		'kind' in item);
+
+/** 🔥 Agrupa sequências de itens em NavIcon */
+function groupItems(
+	items: TDomBarItem[],
+	compact: boolean,
+	zone: string,
+	scope: IDomScope,
+) {
+	const result: TDomChild[] = [];
+	let buffer: TDomItem[] = [];
+
+	const flushBuffer = () => {
+		if (buffer.length > 0) {
+			result.push(
+				NavIcon({
+					itens: buffer,
+					orientation: 'horizontal',
+					ulClass: clsx(
+						'items-center',
+						compact ? 'gap-1' : 'gap-2',
+						'sm:gap-3',
+					),
+					className: 'h-full',
+					escopo: `header-${zone}`,
+					overflow: 'none',
+					keyboard: false,
+				})(scope),
+			);
+			buffer = [];
+		}
+	};
+
+	for (const item of items) {
+		if (isDescriptor(item) && 'crumbs' in item) {
+			flushBuffer();
+			result.push(
+				Breadcrumbs({
+					escopo: `header-${zone}`,
+					...(item as IDomBreadcrumbs),
+				})(scope),
+			);
+			continue;
+		}
+		if (isNavItem(item)) {
+			const { priority, collapseBelow, ...rest } = item as TDomItem &
+				TDomBarPriority;
+			buffer.push(rest as TDomItem);
+		} else {
+			flushBuffer();
+			result.push(renderContent(item as TDomContent, scope));
+		}
+	}
+	flushBuffer();
+	return result;
+}
+
+/** 🔧 Renderização de cada zona (overflow por CSS, `collapseBelow`) */
+function barZone(
+	{
+		items = [],
+		zone,
+		compact,
+		lead = [],
+		trail = [],
+		keep = false,
+	}: {
+		items?: TDomBarItem[];
+		zone: 'start' | 'center' | 'end';
+		compact: boolean;
+		lead?: TDomChild[];
+		trail?: TDomChild[];
+		keep?: boolean;
+	},
+	scope: IDomScope,
+) {
+	/** Itens migrados: declarados via `collapseBelow` */
+	const movedItems = items.filter(
+		(item) =>
+			isNavItem(item) && (item as TDomBarPriority).collapseBelow,
+	) as (TDomItem & TDomBarPriority)[];
+	const visible: TDomBarItem[] = items.map((item) =>
+		!isNavItem(item) || !(item as TDomBarPriority).collapseBelow ?
+			item
+		:	{
+				...(item as TDomItem),
+				'data-collapse-below': (item as TDomBarPriority)
+					.collapseBelow,
+			},
+	);
+
+	/** Menu "mais" (exibido abaixo do maior `collapseBelow`) */
+	const widest = BREAKPOINT_ORDER.filter((bp) =>
+		movedItems.some((item) => item.collapseBelow === bp),
+	).pop();
+	if (movedItems.length) {
+		visible.push({
+			kind: 'menu',
+			icon: 'fas ellipsis-vertical',
+			ariaLabel: 'Mais opções',
+			compact: true,
+			menuAlign: zone === 'end' ? 'right' : 'left',
+			className: 'header-jcem-more',
+			itens: movedItems.map(
+				({ priority, collapseBelow, ...rest }) => ({
+					...rest,
+					'data-expand-below': collapseBelow,
+				}),
+			),
+			'data-expand-below': widest,
+		});
+	}
+
+	const empty =
+		!items.length && !lead.some(Boolean) && !trail.some(Boolean);
+	if (empty && !keep) return null;
+
+	return h(
+		'div',
+		{
+			'data-overflow': 'css',
+			className: clsx(
+				`navbar-${zone} h-full`,
+				(keep || items.length > 0) && 'min-w-0',
+				keep && 'w-auto',
+			),
+		},
+		lead,
+		groupItems(visible, compact, zone, scope),
+		trail,
+	);
+}
+
+/** 🚀 HeaderBar */
+export const HeaderBar =
+	(props: IDomHeaderBar): TDomView =>
+	(scope) =>
+		renderHeaderBar(props, scope);
+
+/** Renderização do HeaderBar no escopo */
+function renderHeaderBar(
+	{
+		classPart = '',
+		title,
+		subtitle,
+		logo,
+		logoAlt = '',
+		logoHref,
+		headingLevel,
+		left = [],
+		center = [],
+		right = [],
+		searchComponent,
+		titleAlign = 'left',
+		variant = 'normal',
+		sticky = variant === 'sticky',
+		size = 'sm',
+		shadow = 'none',
+		compact,
+		escopo = 'header',
+		drawerToggles = true,
+		className,
+		...props
+	}: IDomHeaderBar,
+	scope: IDomScope,
+) {
+	/** 🧬 Densidade herdada do escopo quando não informada */
+	const { density, depth, navs } = scope;
+	const dense = compact ?? density === 'compact';
+
+	/** 🍔 Botões automáticos da gaveta: apenas no primeiro HeaderBar do PageZone */
+	const barId = uid(scope, 'hbar');
+	const owner = navs.drawer?.owner;
+	if (owner && drawerToggles && !owner.current) owner.current = barId;
+	const ownsDrawer = owner?.current === barId;
+	const drawerLeft =
+		ownsDrawer &&
+		navs.left &&
+		NavToggle({ side: 'left', target: 'drawer' })(scope);
+	const drawerRight =
+		ownsDrawer &&
+		navs.right &&
+		NavToggle({ side: 'right', target: 'drawer' })(scope);
+
+	/** 🏷️ Marca: logo + título/subtítulo (nível do heading segue o aninhamento do PageZone) */
+	const heading = `h${headingLevel ?? Math.min(Math.max(depth + 1, 1), 6)}`;
+	const logoNode =
+		typeof logo === 'string' ?
+			h('img', { src: logo, alt: logoAlt, className: 'h-8 w-auto' })
+		:	renderContent(logo, scope);
+	const brand =
+		(logo || title || subtitle) &&
+		h(
+			'div',
+			{
+				className: clsx(
+					'header-jcem-brand flex items-center gap-2 min-w-0',
+					titleAlign === 'center' && 'justify-center text-center',
+					titleAlign === 'right' && 'flex-row-reverse text-right',
+				),
+			},
+			logoNode &&
+				h(
+					logoHref ? 'a' : 'span',
+					{ href: logoHref, className: 'flex-shrink-0' },
+					logoNode,
+				),
+			(title || subtitle) &&
+				h(
+					'div',
+					{ className: 'flex flex-col min-w-0 leading-tight' },
+					title &&
+						h(
+							heading,
+							{
+								className:
+									'm-0 truncate font-semibold text-[1.125em]',
+							},
+							renderContent(title, scope),
+						),
+					subtitle &&
+						h(
+							'p',
+							{ className: 'm-0 truncate text-[0.75em] opacity-70' },
+							renderContent(subtitle, scope),
+						),
+				),
+		);
+
+	/** ⚖️ Título centralizado: grade 1fr/auto/1fr independe da largura das laterais */
+	const centered = !!brand && titleAlign === 'center';
+
+	/** 🔍 Componente de busca */
+	const searchBox =
+		searchComponent &&
+		h(
+			'div',
+			{
+				className: clsx(
+					'h-full flex items-center mr-2',
+					dense ? 'max-w-[120px]' : 'max-w-[160px]',
+					'sm:max-w-[200px]',
+				),
+			},
+			renderContent(searchComponent, scope),
+		);
+
+	/** ⌨️ Roving tabindex entre todas as zonas: a barra é uma única parada de Tab */
+	const focus = roving(
+		scope,
+		barId,
+		(bar) =>
+			Array.from(
+				bar.querySelectorAll<HTMLElement>(
+					":scope > [data-overflow] > [data-inav] > ul, :scope > [data-overflow] > [class*='btb-jcem']",
+				),
+			).flatMap((el) => (el.tagName === 'UL' ? ownItems(el) : [el])),
+		'horizontal',
+	);
+
+	const header = h(
+		'header',
+		{
+			...props,
+			...focus.props,
+			className: twMerge(
+				clsx(
+					'navbar min-h-12 w-full',
+					variant !== 'normal' && `navbar-${variant}`,
+					sizeMap[size],
+					shadowMap[shadow],
+					dense ? 'py-1 px-2' : 'py-2 px-4',
+					centered &&
+						'grid grid-cols-[minmax(0,1fr)_auto_minmax(0,1fr)]',
+					`header-jcem-${escopo}`,
+					classPart && `header-${classPart}`,
+				),
+				resolveClassName(className),
+			),
+			'data-sticky': sticky || undefined,
+		},
+		barZone(
+			{
+				items: left,
+				zone: 'start',
+				compact: dense,
+				lead: [drawerLeft, titleAlign === 'left' && brand],
+				keep: centered,
+			},
+			scope,
+		),
+		barZone(
+			{
+				items: center,
+				zone: 'center',
+				compact: dense,
+				lead: [centered && brand],
+			},
+			scope,
+		),
+		barZone(
+			{
+				items: right,
+				zone: 'end',
+				compact: dense,
+				trail: [
+					searchBox,
+					titleAlign === 'right' && brand,
+					drawerRight,
+				],
+				keep: centered,
+			},
+			scope,
+		),
+	);
+	return focus.apply(header);
+}
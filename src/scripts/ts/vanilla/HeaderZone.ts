@@ -0,0 +1,107 @@
+/**
+ * HeaderZone (vanilla) — Cabeçalho do PageZone com a mesma saída do componente.
+ *
+ * @description
+ * `header.hzone-jcem` (ver `SectionWrapperBase`) com `data-position`,
+ * `data-sticky-bars` (HeaderBar `sticky` em cabeçalho estático) e
+ * `data-autohide`, mais o espaçador do modo `fixed`.
+ *
+ * Espaço reservado, offsets das barras presas e auto-hide dependem de
+ * medição/rolagem e não são aplicados.
+ *
+ * @see {@link HeaderZone}
+ */
+import clsx from 'clsx';
+import { positionMap } from '@comp/HeaderZone/HeaderZoneVariants';
+import { append, h, SLOT_TAG, TDomOmit } from './dom';
+import { IDomSection, renderSection } from './SectionWrapperBase';
+import { IDomScope, uid } from './scope';
+import { renderContent, TDomView } from './view';
+
+/** Props do HeaderZone */
+export interface IDomHeaderZone
+	extends TDomOmit<IDomSection, 'as' | 'stack'> {
+	position?: 'static' | 'sticky' | 'fixed';
+	fixed?: boolean;
+	autoHide?: boolean;
+}
+
+/** 🔥 HeaderZone */
+export const HeaderZone =
+	(props: IDomHeaderZone): TDomView =>
+	(scope) =>
+		renderHeaderZone(props, scope);
+
+/** Renderização do HeaderZone no escopo */
+export function renderHeaderZone(
+	{
+		escopo = 'header',
+		shadow = true,
+		container = false,
+		debug = false,
+		fixed = false,
+		position = fixed ? 'fixed' : 'static',
+		autoHide = false,
+		children,
+		...props
+	}: IDomHeaderZone,
+	scope: IDomScope,
+) {
+	const { logger } = scope;
+	const id = `${props.id ?? uid(scope, 'hzone')}`;
+
+	/** Filhos renderizados antes da seção (inspeção das barras) */
+	const content = document.createDocumentFragment();
+	append(content, renderContent(children, scope));
+	const bars = Array.from(content.children).filter((el) =>
+		el.matches('header.navbar'),
+	);
+
+	/** Conteúdo externo (slot de adaptador) não é inspecionado */
+	const external = Array.from(content.children).some(
+		(el) => el.localName === SLOT_TAG,
+	);
+
+	if (!bars.length && !external) {
+		logger.warn(
+			`[HeaderZone] Nenhum HeaderBar encontrado em escopo "${escopo}". Recomenda-se incluir um HeaderBar para melhor conformidade visual e estrutural.`,
+		);
+	}
+	if (autoHide && position === 'static') {
+		logger.warn(
+			`[HeaderZone] \`autoHide\` ignorado em escopo "${escopo}": requer \`position\` "sticky" ou "fixed".`,
+		);
+	}
+
+	/** 📌 Barras `sticky` só prendem na página se o cabeçalho não for o bloco de contenção */
+	const stickyBars =
+		position === 'static' &&
+		bars.some((bar) => bar.hasAttribute('data-sticky'));
+
+	return [
+		renderSection(
+			{
+				...props,
+				id,
+				escopo,
+				as: 'header',
+				stack: true,
+				shadow,
+				container,
+				className: clsx('hzone-jcem', positionMap[position]),
+				'data-position': position,
+				'data-sticky-bars': stickyBars || undefined,
+				'data-autohide':
+					(autoHide && position !== 'static') || undefined,
+				debug,
+				children: content,
+			},
+			scope,
+		),
+		position === 'fixed' &&
+			h('div', {
+				'aria-hidden': 'true',
+				className: 'hzone-jcem-spacer',
+			}),
+	];
+}
@@ -0,0 +1,254 @@
+/**
+ * MenuX (vanilla) — Menu expansível com a mesma saída do componente `MenuX`.
+ *
+ * @description
+ * Wrapper `div[data-menu]` + gatilho `ButtonX` (`label[for]` do radio) +
+ * painel `NavIcon` (`role="menu"`), com as classes de `MenuXVariants`.
+ * O estado básico continua no input:radio (CSS `peer-checked`); o JS espelha
+ * o radio em `data-open`/`aria-expanded` e reproduz o menu button do
+ * componente: toggle no gatilho, Enter/Espaço, Escape, ← no flyout, hover
+ * no flyout e fechamento ao ativar um item ou perder o foco.
+ *
+ * A inversão por borda (`data-flip-x`/`data-flip-y`) depende de medição e
+ * não é aplicada.
+ *
+ * @see {@link MenuX}
+ */
+import { twMerge } from 'tailwind-merge';
+import {
+	getCaption,
+	resolveClassName,
+} from '@mod/jcemTS/src/ts/common/ui';
+import { isTrue } from '@mod/jcemTS/src/ts/common/logicos';
+import {
+	menuContentVariants,
+	menuPanelClass,
+	variants,
+} from '@comp/MenuX/MenuXVariants';
+import { ownItems } from '../ownItems';
+import { h, TDomOmit } from './dom';
+import { ButtonX, TDomButtonX } from './ButtonX';
+import {
+	isRouteItemActive,
+	renderNavIcon,
+	TDomItem,
+} from './NavIcon';
+import { IDomScope, onOutside, previous, state, uid } from './scope';
+import type { TDomView } from './view';
+
+/** Atraso (ms) para fechar o flyout ao sair com o mouse */
+const HOVER_CLOSE_MS = 150;
+
+/** Timers de fechamento do flyout, por menu */
+const hoverTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+/** Props do MenuX */
+export interface IDomMenuX extends TDomOmit<TDomButtonX, 'htmlFor'> {
+	itens: TDomItem[];
+	checked?: boolean;
+	openActive?: boolean;
+	group?: string;
+	navClass?: string | (() => string);
+	menuAlign?: 'left' | 'center' | 'right';
+	variant?: 'dropdown' | 'vertical' | 'horizontal' | 'flyout';
+	className?: string | (() => string);
+}
+
+/** 🌟 MenuX */
+export const MenuX =
+	(props: IDomMenuX): TDomView =>
+	(scope) =>
+		renderMenuX(props, scope);
+
+/** Renderização do MenuX no escopo */
+function renderMenuX(
+	{
+		escopo = 'global_menu',
+		itens,
+		checked,
+		openActive = true,
+		group,
+		navClass,
+		onClick,
+		menuAlign = 'left',
+		variant = 'dropdown',
+		className,
+		...props
+	}: IDomMenuX,
+	scope: IDomScope,
+) {
+	props.caption = getCaption(props.caption, props.label);
+	delete props.label;
+
+	const id = uid(scope, 'menu', 18);
+	const triggerId = `${id}-trigger`;
+	const panelId = `${id}-panel`;
+	const flyout = variant === 'flyout';
+
+	/** 🧭 Descendente na rota atual → abre o menu */
+	const activeChild = !!itens?.some((item) =>
+		isRouteItemActive(item, scope.location.get()),
+	);
+
+	/** Estado JS espelhando o input:radio (baseline CSS-only) */
+	const [open, setOpen] = state(
+		scope,
+		id,
+		isTrue(checked) || (openActive && activeChild),
+	);
+	if (
+		openActive &&
+		activeChild &&
+		!previous(scope, `${id}-active`, activeChild)
+	) {
+		setOpen(true);
+	}
+
+	const radio = () =>
+		document.getElementById(id) as HTMLInputElement | null;
+	const trigger = () => document.getElementById(triggerId);
+	const root = () => document.querySelector(`div[data-menu="${id}"]`);
+	const focusFirst = () =>
+		requestAnimationFrame(() =>
+			ownItems(
+				document.querySelector(`#${CSS.escape(panelId)} > ul`),
+			)[0]?.focus(),
+		);
+
+	/** 🚪 Clique fora do menu fecha */
+	if (open) onOutside(scope, root, () => setOpen(false));
+
+	/** 🔀 Toggle no gatilho (flyout permanece aberto: abre por hover) */
+	const onTriggerClick = (e: MouseEvent) => {
+		onClick?.call(e.currentTarget, e);
+		if (open && !flyout) {
+			e.preventDefault();
+			setOpen(false);
+		}
+	};
+
+	/** ✅ Ativar um item (não submenu) do próprio painel fecha e devolve o foco */
+	const onPanelClick = (e: MouseEvent) => {
+		const item = (e.target as HTMLElement).closest(
+			'[role="menuitem"]',
+		);
+		if (
+			open &&
+			item &&
+			!item.hasAttribute('aria-haspopup') &&
+			document.getElementById(panelId)?.contains(item)
+		) {
+			setOpen(false);
+			trigger()?.focus();
+		}
+	};
+
+	/** 🚪 Foco saindo do menu fecha */
+	const onFocusOut = (e: FocusEvent) => {
+		const next = e.relatedTarget as Node | null;
+		if (open && next && !root()?.contains(next)) setOpen(false);
+	};
+
+	/** 🖱️ Flyout: abre no hover, fecha ao sair (com tolerância) */
+	const onMouseEnter = () => {
+		clearTimeout(hoverTimers.get(id));
+		if (flyout && !open) radio()?.click();
+	};
+	const onMouseLeave = () => {
+		if (!flyout) return;
+		hoverTimers.set(
+			id,
+			setTimeout(() => setOpen(false), HOVER_CLOSE_MS),
+		);
+	};
+
+	/** ⌨️ Enter/Espaço abrem; Escape (ou ← no flyout) fecha e devolve o foco */
+	const onKeyDown = (e: KeyboardEvent) => {
+		const inside = e.target !== trigger();
+		if (
+			open &&
+			(e.key === 'Escape' ||
+				(flyout && inside && e.key === 'ArrowLeft'))
+		) {
+			e.preventDefault();
+			e.stopPropagation();
+			setOpen(false);
+			trigger()?.focus();
+			return;
+		}
+		if (
+			e.target === trigger() &&
+			(e.key === 'Enter' || e.key === ' ')
+		) {
+			e.preventDefault();
+			e.stopPropagation();
+			if (!open) radio()?.click();
+			focusFirst();
+		}
+	};
+
+	if (!itens?.length) {
+		scope.logger.warn(`MenuX (${escopo}) criado sem itens.`);
+	}
+
+	return h(
+		'div',
+		{
+			'data-menu': id,
+			'data-open': open || undefined,
+			'data-active-child': activeChild || undefined,
+			'data-variant': variant,
+			'data-align': menuAlign,
+			className: variants({
+				variant,
+				menuAlign,
+				className: twMerge(
+					`menu-jcem-wrapper-${escopo}`,
+					resolveClassName(className),
+				),
+			}),
+			onKeyDown,
+			onMouseEnter,
+			onMouseLeave,
+			onFocusOut,
+			onClick: onPanelClick,
+		},
+		ButtonX({
+			role: 'button',
+			tabIndex: 0,
+			...props,
+			id: triggerId,
+			'aria-haspopup': 'menu',
+			'aria-expanded': open,
+			'aria-controls': panelId,
+			onClick: onTriggerClick,
+			htmlFor: id,
+			escopo,
+			className: twMerge(
+				resolveClassName(className),
+				variant === 'dropdown' && 'dropdown-toggle',
+			),
+		})(scope),
+		renderNavIcon(
+			{
+				id: panelId,
+				labelledBy: triggerId,
+				menuId: id,
+				menuGroup: group ?? id,
+				escopo,
+				menuAlign,
+				behavior: 'menu',
+				orientation:
+					variant === 'horizontal' ? 'horizontal' : 'vertical',
+				itens,
+				opened: open,
+				ulClass: twMerge(
+					menuContentVariants({ variant }),
+					resolveClassName(navClass),
+				),
+				wrapperClass: menuPanelClass(variant),
+			},
+			scope,
+		),
+	);
+}
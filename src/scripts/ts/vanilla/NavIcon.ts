@@ -0,0 +1,243 @@
+/**
+ * NavIcon (vanilla) — Lista de ações com a mesma saída do componente `NavIcon`.
+ *
+ * @description
+ * Renderiza `ButtonX`/`MenuX` em `aside > ul > li` com as classes de
+ * `NavIconVariants`, o radio do menu (`menuId`), o checkbox de recolhimento
+ * (`collapsible`) e `aria-current="page"` no item cuja rota casa com a
+ * localização do escopo, com roving tabindex na lista (`keyboard`).
+ *
+ * Markup da renderização inicial do componente: a dobra por overflow
+ * (`data-folded`, menu "Mais") depende de medição e não é aplicada.
+ *
+ * @see {@link NavIcon}
+ */
+import { twMerge } from 'tailwind-merge';
+import { resolveClassName } from '@mod/jcemTS/src/ts/common/ui';
+import { isTrue } from '@mod/jcemTS/src/ts/common/logicos';
+import { navIconVariants } from '@comp/NavIcon/NavIconVariants';
+import { IRouteItem, isRouteActive } from '../location';
+import { ownItems } from '../ownItems';
+import { h, TDomProps } from './dom';
+import { ButtonX, TDomButtonX } from './ButtonX';
+import { IDomMenuX, MenuX } from './MenuX';
+import { roving } from './roving';
+import { controllable, IDomScope, scopedId, uid } from './scope';
+import { isHtmlTag } from './SectionWrapperBase';
+import type { TDomView } from './view';
+
+/** Item da lista: ButtonX ou MenuX (`kind: 'menu'` ou com `itens`) */
+export type TDomItem =
+	| (TDomButtonX & { kind?: 'button' })
+	| (IDomMenuX & { kind?: 'menu' });
+
+/** Props do NavIcon */
+export interface IDomNavIcon extends TDomProps {
+	itens: TDomItem[];
+	escopo?: string;
+	menuId?: string;
+	ulClass?: string | (() => string);
+	wrapperClass?: string | (() => string);
+	opened?: boolean;
+	orientation?: 'vertical' | 'horizontal';
+	behavior?: 'toolbar' | 'menu' | 'header';
+	className?: string | (() => string);
+	as?: string;
+	compact?: boolean;
+	collapsible?: boolean;
+	expanded?: boolean;
+	defaultExpanded?: boolean;
+	onExpandedChange?: (expanded: boolean) => void;
+	toggleId?: string;
+	overflow?: 'fold' | 'none';
+	keyboard?: boolean;
+	labelledBy?: string;
+	menuAlign?: IDomMenuX['menuAlign'];
+	menuGroup?: string;
+}
+
+/** Type guard para diferenciar MenuX */
+export const isMenu = (item: TDomItem): item is IDomMenuX =>
+	item.kind === 'menu' || 'itens' in item;
+
+/** 🧭 Item (ou submenu com descendente) cuja rota casa com a localização */
+export const isRouteItemActive = (
+	item: TDomItem,
+	location: string,
+): boolean =>
+	isMenu(item) ?
+		item.itens?.some((i) => isRouteItemActive(i, location))
+	:	isRouteActive(item as IRouteItem, location);
+
+/** 🧭 NavIcon */
+export const NavIcon =
+	(props: IDomNavIcon): TDomView =>
+	(scope) =>
+		renderNavIcon(props, scope);
+
+/** Renderização do NavIcon no escopo */
+export function renderNavIcon(
+	{
+		as = 'div',
+		menuId,
+		escopo = 'global_menu',
+		itens,
+		ulClass,
+		wrapperClass,
+		opened = true,
+		orientation = 'vertical',
+		behavior = 'toolbar',
+		className,
+		compact = false,
+		collapsible = false,
+		expanded,
+		defaultExpanded,
+		onExpandedChange,
+		toggleId,
+		labelledBy,
+		menuAlign,
+		menuGroup,
+		keyboard = true,
+		...props
+	}: IDomNavIcon,
+	scope: IDomScope,
+) {
+	// Dobra depende de medição do adaptador Preact
+	delete props.overflow;
+	const Tag = isHtmlTag(as) ? as : 'section';
+	const cid = menuId ?? uid(scope, 'inav', 18);
+	const path = scope.location.get();
+
+	/** Estado de recolhimento (controlado ou não) */
+	const collapseId = toggleId ?? `${cid}-compact`;
+	const [isExpanded, setExpanded] = controllable(
+		scope,
+		collapseId,
+		expanded,
+		defaultExpanded ?? !isTrue(compact),
+		onExpandedChange,
+	);
+
+	/** ⌨️ Roving tabindex na própria lista */
+	const focus = roving(scope, cid, ownItems, orientation);
+
+	const { aside, ul, li } = navIconVariants({
+		behavior,
+		orientation,
+		opened: isTrue(opened),
+		compact: collapsible ? !isExpanded : isTrue(compact),
+		collapsible: isTrue(collapsible),
+	});
+
+	/** Renderiza cada item */
+	const renderItem = (item: TDomItem) => {
+		const commonProps = {
+			className: twMerge(
+				li(),
+				'w-full text-left flex items-center',
+				collapsible && 'peer-checked/compact:[&>span]:hidden',
+				resolveClassName(item.className),
+			),
+			...(collapsible && { 'data-collapsable': '' }),
+			...(behavior === 'menu' && { role: 'menuitem' }),
+		};
+
+		/** Menus da lista formam um grupo (um aberto por vez); em painel vertical viram flyout */
+		const flyout = behavior === 'menu' && orientation === 'vertical';
+		const content =
+			isMenu(item) ?
+				MenuX({
+					...commonProps,
+					group: cid,
+					...(behavior === 'menu' && { menuAlign }),
+					...item,
+					variant:
+						orientation === 'horizontal' ? 'horizontal'
+						: flyout ? 'flyout'
+						: 'dropdown',
+				})(scope)
+			:	ButtonX({
+					...commonProps,
+					...item,
+					...(isRouteItemActive(item, path) && {
+						'aria-current': 'page',
+						className: twMerge(commonProps.className, 'btn-active'),
+					}),
+				})(scope);
+
+		return h(
+			'li',
+			{
+				className: li(),
+				role: behavior === 'menu' ? 'none' : undefined,
+			},
+			content,
+		);
+	};
+
+	return [
+		menuId &&
+			h('input', {
+				type: 'radio',
+				name:
+					menuGroup ?
+						scopedId(scope, `menu-group-${menuGroup}`)
+					:	scopedId(scope, escopo),
+				id: cid,
+				className: 'hidden peer',
+				checked: isTrue(opened),
+			}),
+
+		collapsible &&
+			h('input', {
+				type: 'checkbox',
+				id: collapseId,
+				className: 'hidden peer/compact inav-jcem-collapse',
+				checked: !isExpanded,
+				onChange: (e: Event) => {
+					const input = e.currentTarget as HTMLInputElement;
+					const next = !input.checked;
+					// Mantém o DOM fiel ao estado até o re-render (modo controlado)
+					input.checked = !isExpanded;
+					setExpanded(next);
+				},
+			}),
+
+		h(
+			Tag,
+			{
+				...(menuId ? { 'data-menu': cid } : { 'data-inav': cid }),
+				...props,
+				className: twMerge(
+					aside(),
+					collapsible && 'peer',
+					`inav-jcem-${escopo}`,
+					resolveClassName(wrapperClass),
+					resolveClassName(className),
+				),
+				'data-navicon': cid,
+				'data-scope': scope.ns || undefined,
+				'data-expanded': collapsible ? String(isExpanded) : undefined,
+			},
+			focus.apply(
+				h(
+					'ul',
+					{
+						...(keyboard && focus.props),
+						...(behavior === 'menu' && {
+							role: 'menu',
+							'aria-labelledby': labelledBy,
+							'aria-orientation': orientation,
+						}),
+						className: twMerge(
+							ul(),
+							collapsible && 'peer-checked/compact:[&_.btn]:px-3',
+							resolveClassName(ulClass),
+						),
+					},
+					itens.map(renderItem),
+				),
+			),
+		),
+	];
+}
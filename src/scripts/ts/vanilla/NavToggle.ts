@@ -0,0 +1,81 @@
+/**
+ * NavToggle (vanilla) — Botão que alterna a navegação lateral do PageZone.
+ *
+ * @description
+ * Mesma saída do componente `NavToggle`: `label[for]` do checkbox de
+ * recolhimento (`target="collapse"`) ou da gaveta (`target="drawer"`),
+ * com `aria-controls`/`aria-expanded` do lado publicado pelo PageZone.
+ *
+ * @see {@link NavToggle}
+ */
+import type { TNavSide } from '@comp/PageZone/PageZoneDrawer';
+import type { TDomOmit } from './dom';
+import { ButtonX, TDomButtonX } from './ButtonX';
+import type { IDomScope } from './scope';
+import type { TDomView } from './view';
+
+/** Props do NavToggle */
+export type TDomNavToggle = TDomOmit<TDomButtonX, 'htmlFor'> & {
+	side?: TNavSide;
+	target?: 'collapse' | 'drawer';
+};
+
+/** 🍔 NavToggle */
+export const NavToggle =
+	(props: TDomNavToggle): TDomView =>
+	(scope) =>
+		renderNavToggle(props, scope);
+
+/** Renderização do NavToggle no escopo */
+function renderNavToggle(
+	{
+		side = 'left',
+		target = 'collapse',
+		icon = 'fas bars',
+		ariaLabel,
+		compact = true,
+		...props
+	}: TDomNavToggle,
+	scope: IDomScope,
+) {
+	const { navs, logger } = scope;
+	const nav = navs[side];
+	const drawer = target === 'drawer';
+
+	if (drawer && nav && navs.drawer) {
+		return ButtonX({
+			...props,
+			icon,
+			compact,
+			htmlFor: nav.drawerId,
+			ariaLabel:
+				ariaLabel ??
+				`Abrir navegação ${side === 'left' ? 'esquerda' : 'direita'}`,
+			'aria-controls': nav.navId,
+			'aria-expanded': nav.drawerOpen,
+			'data-drawer-toggle': navs.drawer.below,
+		})(scope);
+	}
+
+	if (!nav?.collapsible || drawer) {
+		logger.warn(
+			drawer ?
+				`[NavToggle] PageZone sem \`drawerBelow\` ou sem NavIcon "${side}".`
+			:	`[NavToggle] Nenhum NavIcon "${side}" com \`collapsible\` no PageZone para alternar.`,
+		);
+		return null;
+	}
+
+	return ButtonX({
+		...props,
+		icon,
+		compact,
+		htmlFor: nav.toggleId,
+		ariaLabel:
+			ariaLabel ??
+			`Alternar navegação ${side === 'left' ? 'esquerda' : 'direita'}`,
+		'aria-controls': nav.navId,
+		'aria-expanded': nav.expanded,
+		'data-nav-toggle': side,
+	})(scope);
+}
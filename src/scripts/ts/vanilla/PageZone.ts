@@ -0,0 +1,229 @@
+/**
+ * PageZone (vanilla) — Contêiner principal com a mesma saída do componente.
+ *
+ * @description
+ * Sem filhos JSX para validar, as regiões são props nomeadas — a ordem do
+ * `PageZone` é garantida pela própria estrutura:
+ * `header` (HeaderZone) → `content` (ContentWrapper) → `footer` (FooterZone),
+ * com `left`/`right` (NavIcon) no `EnclosureContent`.
+ *
+ * Resolve o escopo filho (namespace, tema, ícones encadeados ao herdado,
+ * localização, logger, densidade) e publica as navegações laterais para
+ * `NavToggle` e `HeaderBar`, como `PageZoneScope`/`PageZoneNav`.
+ *
+ * @see {@link PageZone}
+ */
+import { twMerge } from 'tailwind-merge';
+import clsx from 'clsx';
+import { type VariantProps } from 'tailwind-variants';
+import { resolveClassName } from '@mod/jcemTS/src/ts/common/ui';
+import { PageZoneVariants } from '@comp/PageZone/PageZoneVariants';
+import type {
+	TDrawerBreakpoint,
+	TNavExpansion,
+	TNavSide,
+} from '@comp/PageZone/PageZoneDrawer';
+import type { ILocationSource } from '../location';
+import { h, TDomProps } from './dom';
+import {
+	renderContentWrapper,
+	IDomContentWrapper,
+} from './ContentWrapper';
+import { renderEnclosure } from './EnclosureContent';
+import { renderFooterZone, IDomFooterZone } from './FooterZone';
+import { renderHeaderZone, IDomHeaderZone } from './HeaderZone';
+import {
+	chainIcons,
+	IDomIconProvider,
+	toIconProvider,
+} from './icons';
+import { IDomNavIcon, renderNavIcon } from './NavIcon';
+import {
+	controllable,
+	IDomLogger,
+	IDomNavSide,
+	IDomScope,
+	resolveScope,
+	scopedId,
+	state,
+	TDomDensity,
+} from './scope';
+import type { TDomView } from './view';
+
+/** 🧭 Navegação lateral: NavIcon + modo de expansão */
+export interface IDomSideNav extends IDomNavIcon {
+	expansion?: TNavExpansion;
+}
+
+/** 🔗 Props do PageZone */
+export interface IDomPageZone
+	extends TDomProps,
+		VariantProps<typeof PageZoneVariants> {
+	escopo?: string;
+	classPart?: string;
+	className?: string | (() => string);
+	header?: IDomHeaderZone;
+	content: IDomContentWrapper;
+	footer?: IDomFooterZone;
+	left?: IDomSideNav;
+	right?: IDomSideNav;
+	theme?: string;
+	icons?: IDomIconProvider | IDomIconProvider[];
+	location?: ILocationSource;
+	logger?: IDomLogger;
+	density?: TDomDensity;
+	drawerBelow?: TDrawerBreakpoint | false;
+}
+
+/** 🧭 Estado e renderização de uma navegação lateral */
+function sideNav(
+	scope: IDomScope,
+	side: TNavSide,
+	desc?: IDomSideNav,
+): IDomNavSide | undefined {
+	if (!desc) return undefined;
+
+	const expansion = desc.expansion ?? 'push';
+	const navId = `${desc.id ?? scopedId(scope, `nav-${side}`)}`;
+	const toggleId =
+		desc.toggleId ?? scopedId(scope, `nav-${side}-toggle`);
+	const drawerId = scopedId(scope, `nav-${side}-drawer`);
+
+	const [expanded, setExpanded] = controllable(
+		scope,
+		toggleId,
+		desc.expanded,
+		desc.defaultExpanded ??
+			(expansion !== 'overlay' && !desc.compact),
+		desc.onExpandedChange,
+	);
+	const [drawerOpen, setDrawerOpen] = state(scope, drawerId, false);
+
+	return {
+		navId,
+		toggleId,
+		expanded,
+		setExpanded,
+		expansion,
+		collapsible: !!(desc.collapsible ?? expansion === 'overlay'),
+		drawerId,
+		drawerOpen,
+		setDrawerOpen,
+	};
+}
+
+/** 🧭 NavIcon lateral com o estado publicado */
+function renderSideNav(
+	desc: IDomSideNav | undefined,
+	nav: IDomNavSide | undefined,
+	side: TNavSide,
+	scope: IDomScope,
+) {
+	if (!desc || !nav) return null;
+	const { className, expansion = 'push', ...rest } = desc;
+	return renderNavIcon(
+		{
+			as: 'aside',
+			...rest,
+			collapsible: nav.collapsible,
+			tabIndex: expansion === 'overlay' ? -1 : rest.tabIndex,
+			id: nav.navId,
+			toggleId: nav.toggleId,
+			expanded: nav.expanded,
+			onExpandedChange: nav.setExpanded,
+			'data-side': side,
+			className: twMerge(
+				'flex-shrink-0 h-full',
+				resolveClassName(className),
+			),
+		},
+		scope,
+	);
+}
+
+/** 🚀 PageZone */
+export const PageZone =
+	(props: IDomPageZone): TDomView =>
+	(scope) =>
+		renderPageZone(props, scope);
+
+/** Renderização do PageZone no escopo ancestral */
+function renderPageZone(
+	{
+		escopo = 'pagezone',
+		classPart = '',
+		className,
+		variant = 'normal',
+		size = 'md',
+		shadow = 'none',
+		compact,
+		header,
+		content,
+		footer,
+		left,
+		right,
+		theme,
+		icons,
+		location,
+		logger,
+		density,
+		drawerBelow = false,
+		...props
+	}: IDomPageZone,
+	parent: IDomScope,
+) {
+	/** 🧬 Escopo: overrides locais ou herança do PageZone ancestral */
+	const scope = resolveScope(parent, escopo, {
+		theme,
+		icons: icons && chainIcons(toIconProvider(icons), parent.icons),
+		location,
+		logger,
+		density,
+	});
+	const dense = compact ?? scope.density === 'compact';
+
+	/** Navegações publicadas antes de renderizar cabeçalho e corpo */
+	const leftState = sideNav(scope, 'left', left);
+	const rightState = sideNav(scope, 'right', right);
+	scope.navs = {
+		left: leftState,
+		right: rightState,
+		...(drawerBelow && {
+			drawer: { below: drawerBelow, owner: { current: null } },
+		}),
+	};
+
+	/** 🎨 Classes finais */
+	const finalClass = twMerge(
+		PageZoneVariants({ variant, size, shadow, compact: dense }),
+		clsx(
+			`PageZone-jcem-${escopo}`,
+			scope.ns !== escopo && `PageZone-jcem-${scope.ns}`,
+			classPart && `PageZone-${classPart}`,
+		),
+		resolveClassName(className),
+	);
+
+	return h(
+		'section',
+		{
+			...props,
+			'data-escopo': scope.ns,
+			'data-theme': theme,
+			className: twMerge(
+				finalClass,
+				'flex flex-col min-h-dvh',
+				'page-zone-root',
+				'',
+			),
+		},
+		header && renderHeaderZone(header, scope),
+		renderEnclosure(
+			renderSideNav(left, leftState, 'left', scope),
+			renderSideNav(right, rightState, 'right', scope),
+			renderContentWrapper(content, scope),
+			scope,
+		),
+		footer && renderFooterZone(footer, scope),
+	);
+}
@@ -0,0 +1,93 @@
+/**
+ * SectionWrapperBase (vanilla) — Seção base de HeaderZone/ContentWrapper/FooterZone.
+ *
+ * @description
+ * `Tag[data-section] > div` com as classes de `SectionWrapperBaseVariants`,
+ * como o componente `SectionWrapperBase`.
+ *
+ * @see {@link SectionWrapperBase}
+ */
+import { twMerge } from 'tailwind-merge';
+import {
+	HTML_TAGS,
+	resolveClassName,
+} from '@mod/jcemTS/src/ts/common/ui';
+import { sectionVariants } from '@comp/SectionWrapperBase/SectionWrapperBaseVariants';
+import { h, TDomProps } from './dom';
+import { IDomScope, uid } from './scope';
+import { renderContent, TDomContent, TDomView } from './view';
+
+/** Props do SectionWrapperBase */
+export interface IDomSection extends TDomProps {
+	stack?: boolean;
+	shadow?: boolean;
+	container?: boolean;
+	escopo?: string;
+	className?: string | (() => string);
+	wrapperClass?: string | (() => string);
+	debug?: boolean;
+	as?: string;
+	children?: TDomContent;
+}
+
+/** 🏷️ Tag aceita em `as` (lista `HTML_TAGS`) */
+export const isHtmlTag = (tag: unknown): tag is string =>
+	(HTML_TAGS as readonly unknown[]).includes(tag);
+
+/** 🚀 SectionWrapperBase */
+export const SectionWrapperBase =
+	(props: IDomSection): TDomView =>
+	(scope) =>
+		renderSection(props, scope);
+
+/** Renderização do SectionWrapperBase no escopo */
+export function renderSection(
+	{
+		as = 'section',
+		stack = false,
+		shadow = true,
+		container = false,
+		escopo = 'section',
+		className,
+		wrapperClass,
+		debug = false,
+		children,
+		...props
+	}: IDomSection,
+	scope: IDomScope,
+) {
+	const Tag = isHtmlTag(as) ? as : 'section';
+	const cid = uid(scope, `${Tag}-${escopo}`, 6);
+
+	if (debug) {
+		scope.logger.info(`[SectionWrapperBase] Rendered → ${cid}`, {
+			stack,
+			shadow,
+			container,
+			escopo,
+		});
+	}
+
+	return h(
+		Tag,
+		{
+			...props,
+			'data-section': cid,
+			className: twMerge(
+				sectionVariants({ stack, shadow, container }),
+				`section-jcem-${escopo}`,
+				resolveClassName(className),
+			),
+		},
+		h(
+			'div',
+			{
+				className: twMerge(
+					container ? 'px-4 sm:px-6 lg:px-8' : 'px-2 sm:px-4',
+					resolveClassName(wrapperClass),
+				),
+			},
+			renderContent(children, scope),
+		),
+	);
+}
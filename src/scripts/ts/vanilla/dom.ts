@@ -0,0 +1,214 @@
+/**
+ * dom — Criação e atualização de elementos com a DOM API.
+ *
+ * @description
+ * `h()` aplica as props com a mesma semântica de atributos do Preact,
+ * garantindo markup idêntico ao dos componentes:
+ * - `className` → `class`, `htmlFor` → `for`;
+ * - `null`/`undefined` removem o atributo;
+ * - `false` remove, exceto em `aria-*`/`data-*` (vira `"false"`);
+ * - `true` em propriedade booleana nativa (`disabled`) → atributo vazio;
+ * - `checked`/`value` são propriedades (sem atributo);
+ * - `on*` registra o listener (trocado a cada `morph`, sem duplicar).
+ *
+ * `morph(current, next)` reconcilia a árvore montada com a nova renderização
+ * por posição, preservando os nós (foco, seleção, transições CSS).
+ * Os filhos de um `slot()` pertencem a quem o preenche (adaptadores) e não
+ * são reconciliados.
+ *
+ * @development
+ * - Sem framework: apenas `document`, `Element` e `Event`.
+ * - Boas práticas:
+ *   • Manutenção git-friendly (evitar breaking changes)
+ *   • Comentário de uma única linha preferíveis, exceto quando para jsDoc
+ */
+
+/** Filho aceito pelos renderizadores */
+export type TDomChild =
+	| Node
+	| string
+	| number
+	| boolean
+	| null
+	| undefined
+	| TDomChild[];
+
+/** Props de um elemento (atributos, propriedades e `on*`) */
+export type TDomProps = Record<string, unknown>;
+
+/** `Omit` que preserva as props declaradas ao lado do índice de `TDomProps` */
+export type TDomOmit<P, K extends PropertyKey> = {
+	[key in keyof P as key extends K ? never : key]: P[key];
+};
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const SVG_TAGS = new Set(['svg', 'use', 'path', 'g', 'symbol']);
+
+/** Propriedades aplicadas sem atributo */
+const PROPERTIES = new Set(['checked', 'value']);
+
+/** Props que não vão ao DOM */
+const IGNORED = new Set(['key', 'ref', 'children']);
+
+/** Elemento dos pontos de inserção de conteúdo externo (válido em qualquer conteúdo) */
+export const SLOT_TAG = 'jcem-slot';
+
+/** Listeners atuais de cada elemento (trocados por `morph`) */
+const HANDLERS = new WeakMap<
+	Element,
+	Record<string, EventListener>
+>();
+
+/** Nome do atributo a partir da prop */
+const attrName = (name: string) =>
+	name === 'className' ? 'class'
+	: name === 'htmlFor' ? 'for'
+	: name === 'tabIndex' ? 'tabindex'
+	: name;
+
+/** 🎧 Registra/troca o listener `on*` (um único proxy por evento) */
+function setListener(el: Element, name: string, fn?: EventListener) {
+	const type = name.slice(2).toLowerCase();
+	let handlers = HANDLERS.get(el);
+	if (!handlers) HANDLERS.set(el, (handlers = {}));
+	if (!(type in handlers) && fn) {
+		el.addEventListener(type, (e) => HANDLERS.get(el)?.[type]?.(e));
+	}
+	if (fn) handlers[type] = fn;
+	else delete handlers[type];
+}
+
+/** 🧩 Aplica uma prop com a semântica de atributos do Preact */
+function setProp(el: Element, name: string, value: unknown) {
+	if (IGNORED.has(name)) return;
+	if (/^on[A-Z]/.test(name)) {
+		return setListener(
+			el,
+			name,
+			typeof value === 'function' ?
+				(value as EventListener)
+			:	undefined,
+		);
+	}
+	if (PROPERTIES.has(name)) {
+		Reflect.set(el, name, value ?? (name === 'checked' ? false : ''));
+		return;
+	}
+
+	const attr = attrName(name);
+	if (value == null || (value === false && attr[4] !== '-')) {
+		el.removeAttribute(attr);
+		return;
+	}
+	const native =
+		attr in el && typeof Reflect.get(el, attr) === 'boolean';
+	el.setAttribute(attr, value === true && native ? '' : `${value}`);
+}
+
+/** ➕ Anexa filhos (achatando listas e ignorando vazios) */
+export function append(parent: Node, children: TDomChild) {
+	if (Array.isArray(children)) {
+		for (const child of children) append(parent, child);
+	} else if (children instanceof Node) {
+		parent.appendChild(children);
+	} else if (children != null && typeof children !== 'boolean') {
+		parent.appendChild(document.createTextNode(`${children}`));
+	}
+}
+
+/** 🏗️ Cria um elemento com props e filhos */
+export function h<K extends keyof HTMLElementTagNameMap>(
+	tag: K,
+	props?: TDomProps | null,
+	...children: TDomChild[]
+): HTMLElementTagNameMap[K];
+export function h(
+	tag: string,
+	props?: TDomProps | null,
+	...children: TDomChild[]
+): Element;
+export function h(
+	tag: string,
+	props?: TDomProps | null,
+	...children: TDomChild[]
+) {
+	const el =
+		SVG_TAGS.has(tag) ?
+			document.createElementNS(SVG_NS, tag)
+		:	document.createElement(tag);
+	for (const [name, value] of Object.entries(props ?? {})) {
+		setProp(el, name, value);
+	}
+	append(el, children);
+	return el;
+}
+
+/** 🧺 Fragmento com os filhos */
+export function fragment(...children: TDomChild[]) {
+	const frag = document.createDocumentFragment();
+	append(frag, children);
+	return frag;
+}
+
+/** 🕳️ Ponto de inserção de conteúdo externo (`display: contents`, sem geometria) */
+export const slot = (name: string) =>
+	h(SLOT_TAG, { name, style: 'display: contents' });
+
+/** 🔁 Reconciliação posicional: `current` passa a refletir `next` */
+export function morph(current: Node, next: Node): Node {
+	if (
+		current.nodeType !== next.nodeType ||
+		current.nodeName !== next.nodeName
+	) {
+		current.parentNode?.replaceChild(next, current);
+		return next;
+	}
+
+	if (current.nodeType !== Node.ELEMENT_NODE) {
+		if (current.nodeValue !== next.nodeValue) {
+			current.nodeValue = next.nodeValue;
+		}
+		return current;
+	}
+
+	const el = current as Element;
+	const src = next as Element;
+
+	/** Atributos */
+	for (const { name } of Array.from(el.attributes)) {
+		if (!src.hasAttribute(name)) el.removeAttribute(name);
+	}
+	for (const { name, value } of Array.from(src.attributes)) {
+		if (el.getAttribute(name) !== value) el.setAttribute(name, value);
+	}
+
+	/** Propriedades e listeners */
+	for (const name of PROPERTIES) {
+		if (
+			name in src &&
+			Reflect.get(el, name) !== Reflect.get(src, name)
+		) {
+			Reflect.set(el, name, Reflect.get(src, name));
+		}
+	}
+	const handlers = HANDLERS.get(src) ?? {};
+	for (const type of Object.keys(HANDLERS.get(el) ?? {})) {
+		if (!(type in handlers)) setListener(el, `on${type}`);
+	}
+	for (const [type, fn] of Object.entries(handlers)) {
+		setListener(el, `on${type}`, fn);
+	}
+
+	/** Filhos (exceto os de um slot preenchido externamente) */
+	if (el.localName === SLOT_TAG) return el;
+	const kids = Array.from(el.childNodes);
+	const nextKids = Array.from(src.childNodes);
+	nextKids.forEach((child, i) => {
+		if (kids[i]) morph(kids[i], child);
+		else el.appendChild(child);
+	});
+	for (const extra of kids.slice(nextKids.length))
+		el.removeChild(extra);
+
+	return el;
+}
@@ -0,0 +1,147 @@
+/**
+ * icons — Providers de ícones do renderizador vanilla (nome → `Node`).
+ *
+ * @description
+ * Mesmo contrato do `IconProvider`, devolvendo nós DOM: o provider resolve o
+ * ícone ou devolve `null`, passando a vez ao próximo da cadeia.
+ * - `textIcons(map?)`: emoji/texto, direto ou mapeado (no escopo raiz, com os
+ *   glifos neutros dos controles internos, `BUILTIN_GLYPHS`).
+ * - `spriteIcons(href)`: `<svg><use href="{href}#{id}"/></svg>`.
+ * - `elementIcons(create)`: função do consumidor (ex.: `icon()` do
+ *   `@fortawesome/fontawesome-svg-core`, `<wa-icon>`), sem dependência aqui.
+ *
+ * Fallback idêntico ao dos componentes: provider local → herdado →
+ * placeholder `.icon-jcem-missing` ("?") + warning via Logger.
+ *
+ * @see {@link IconProvider}
+ */
+import { twMerge } from 'tailwind-merge';
+import {
+	ICON_CLASS,
+	iconName,
+	spriteId,
+	textGlyph,
+	TIcon,
+} from '@comp/IconProvider/IconGlyph';
+import { h } from './dom';
+import type { IDomLogger } from './scope';
+
+/** Provider de ícones: resolve o ícone ou devolve `null` (não reconhecido) */
+export interface IDomIconProvider {
+	name: string;
+	resolve: (icon: TIcon, className?: string) => Node | null;
+}
+
+/** 🔤 Emoji/texto: mapa nome → glifo, ou o próprio emoji quando declarado direto */
+export function textIcons(
+	map: Record<string, string> = {},
+	{ name = 'text' } = {},
+): IDomIconProvider {
+	return {
+		name,
+		resolve: (icon, className) => {
+			const glyph = textGlyph(icon, map);
+			if (!glyph) return null;
+			return h(
+				'span',
+				{
+					'aria-hidden': 'true',
+					className: twMerge(ICON_CLASS.text, className),
+				},
+				glyph,
+			);
+		},
+	};
+}
+
+/** 🖼️ Sprite SVG: id sem espaços → `<use href="{href}#{prefix}{id}">` */
+export function spriteIcons(
+	href = '',
+	{ prefix = '', name = 'sprite' } = {},
+): IDomIconProvider {
+	return {
+		name,
+		resolve: (icon, className) => {
+			const id = spriteId(icon);
+			if (!id) return null;
+			return h(
+				'svg',
+				{
+					'aria-hidden': 'true',
+					focusable: 'false',
+					className: twMerge(ICON_CLASS.sprite, className),
+				},
+				h('use', { href: `${href}#${prefix}${id}` }),
+			);
+		},
+	};
+}
+
+/** 🧩 Função do consumidor; `null` repassa ao próximo provider */
+export function elementIcons(
+	create: (
+		icon: TIcon,
+		className?: string,
+	) => Node | null | undefined,
+	{ name = 'element' } = {},
+): IDomIconProvider {
+	return {
+		name,
+		resolve: (icon, className) => create(icon, className) ?? null,
+	};
+}
+
+/** 🔗 Cadeia: o primeiro provider que resolver vence */
+export function chainIcons(
+	...providers: (IDomIconProvider | undefined)[]
+): IDomIconProvider {
+	const list = providers.filter(Boolean) as IDomIconProvider[];
+	if (list.length === 1) return list[0];
+	return {
+		name: list.map((p) => p.name).join(' → '),
+		resolve: (icon, className) => {
+			for (const p of list) {
+				const node = p.resolve(icon, className);
+				if (node != null) return node;
+			}
+			return null;
+		},
+	};
+}
+
+/** ♻️ Normaliza `icons` (provider ou lista em ordem de prioridade) */
+export const toIconProvider = (
+	source?: IDomIconProvider | IDomIconProvider[],
+) => (Array.isArray(source) ? chainIcons(...source) : source);
+
+/** ❔ Resolve o ícone pela cadeia do escopo, com placeholder como último recurso */
+export function renderIcon(
+	provider: IDomIconProvider | undefined,
+	icon: TIcon,
+	className: string | undefined,
+	logger: IDomLogger,
+): Node {
+	let node: Node | null = null;
+	try {
+		node = provider?.resolve(icon, className) ?? null;
+	} catch (err) {
+		logger.warn(
+			`[IconProvider] (${provider?.name}) falhou ao resolver "${iconName(icon)}".`,
+			err,
+		);
+	}
+	if (node != null) return node;
+
+	logger.warn(
+		`[IconProvider] Ícone "${iconName(icon)}" não resolvido (${provider?.name ?? 'sem provider'}).`,
+	);
+	return h(
+		'span',
+		{
+			'aria-hidden': 'true',
+			'data-icon': iconName(icon),
+			className: twMerge(ICON_CLASS.missing, className),
+		},
+		'?',
+	);
+}
@@ -0,0 +1,62 @@
+/**
+ * vanilla — Renderizador DOM dos componentes, sem Preact.
+ *
+ * @description
+ * Mesmas props neutras e o markup, as classes e os `data-*` da renderização
+ * inicial dos componentes Preact (variantes compartilhadas em `*Variants.ts`),
+ * produzidos apenas com a DOM API; não é paridade completa (ver `@behavior`). Cada componente devolve uma `TDomView`; `mount()` resolve o escopo raiz,
+ * anexa ao contêiner e reconcilia a árvore a cada `update()` ou mudança de
+ * estado (radio/checkbox, menus, gavetas, localização).
+ *
+ * ```ts
+ * import { mount, PageZone, HeaderBar } from '@ts/vanilla';
+ *
+ * const app = mount(document.body, PageZone, {
+ * 	header: { children: HeaderBar({ title: 'App' }) },
+ * 	content: { children: 'Olá' },
+ * });
+ * app.update({ ...props, drawerBelow: 'md' });
+ * app.destroy();
+ * ```
+ *
+ * @behavior
+ * - Baseline CSS-only preservado: o estado continua nos inputs (`label[for]`,
+ *   `peer-checked`); o JS apenas espelha em `data-*`/`aria-*`.
+ * - Roving tabindex (NavIcon, HeaderBar) com o mesmo núcleo do Preact.
+ * - Recursos que dependem de medição no adaptador Preact (dobra de overflow,
+ *   offsets de barras presas, auto-hide, inversão de menus, foco da gaveta)
+ *   não são aplicados; o markup é o da renderização inicial.
+ *
+ * @see {@link PageZone}
+ */
+export * from './dom';
+export * from './icons';
+export * from './mount';
+export * from './scope';
+export * from './view';
+export { ButtonX, type TDomButtonX } from './ButtonX';
+export { MenuX, type IDomMenuX } from './MenuX';
+export {
+	isMenu,
+	NavIcon,
+	type IDomNavIcon,
+	type TDomItem,
+} from './NavIcon';
+export { NavToggle, type TDomNavToggle } from './NavToggle';
+export { Breadcrumbs, type IDomBreadcrumbs } from './Breadcrumbs';
+export {
+	HeaderBar,
+	type IDomHeaderBar,
+	type TDomBarItem,
+} from './HeaderBar';
+export {
+	PageZone,
+	type IDomPageZone,
+	type IDomSideNav,
+} from './PageZone';
+export { HeaderZone, type IDomHeaderZone } from './HeaderZone';
+export {
+	ContentWrapper,
+	type IDomContentWrapper,
+} from './ContentWrapper';
+export { FooterZone, type IDomFooterZone } from './FooterZone';
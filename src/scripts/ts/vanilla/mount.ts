@@ -0,0 +1,164 @@
+/**
+ * mount — Montagem de uma view vanilla em um contêiner.
+ *
+ * @description
+ * `mount()` cobre o uso direto. As etapas ficam expostas para adaptadores
+ * (React, Custom Elements) que controlam o próprio ciclo de renderização:
+ * - `createStore(rerender)`: ids e estado local preservados entre renderizações;
+ * - `renderNodes(view, scope)`: renderização destacada (sem tocar o documento);
+ * - `reconcile(container, nodes, next)`: aplica a renderização aos nós montados;
+ * - `listen(store, owns)`: radio, Escape e clique fora no documento.
+ *
+ * @see {@link morph}
+ */
+import { fragment, morph } from './dom';
+import {
+	IDomScope,
+	IDomStore,
+	rootScope,
+	TDomScopeOverrides,
+} from './scope';
+import { renderContent, TDomContent, TDomView } from './view';
+
+/** Montagem ativa */
+export interface IDomMount<P> {
+	element: Node[];
+	update: (next?: P) => void;
+	destroy: () => void;
+}
+
+/** 🗃️ Estado vazio de uma montagem */
+export const createStore = (rerender: () => void): IDomStore => ({
+	ids: new Map(),
+	values: new Map(),
+	counter: new Map(),
+	escape: [],
+	outside: [],
+	rerender,
+});
+
+/** 🧩 Renderiza a view no escopo em nós destacados */
+export function renderNodes(content: TDomContent, scope: IDomScope) {
+	const { store } = scope;
+	store.counter.clear();
+	store.escape.length = 0;
+	store.outside.length = 0;
+	return Array.from(
+		fragment(renderContent(content, scope)).childNodes,
+	);
+}
+
+/** 🔁 Reconcilia os nós montados no contêiner com a nova renderização */
+export function reconcile(
+	container: Node,
+	nodes: Node[],
+	next: Node[],
+): Node[] {
+	const anchor = nodes[nodes.length - 1]?.nextSibling ?? null;
+	const merged = next.map((node, i) =>
+		nodes[i] ? morph(nodes[i], node) : node,
+	);
+	for (const extra of nodes.slice(next.length)) {
+		extra.parentNode?.removeChild(extra);
+	}
+	merged
+		.slice(nodes.length)
+		.forEach((node) => container.insertBefore(node, anchor));
+	return merged;
+}
+
+/** 🎧 Eventos de documento da montagem (`owns`: nó pertence à montagem) */
+export function listen(
+	store: IDomStore,
+	owns: (node: Node) => boolean,
+) {
+	/** 🔘 Radio desmarcado não emite `change`: sincroniza o grupo */
+	const onChange = (e: Event) => {
+		const input = e.target as HTMLInputElement;
+		if (input.type !== 'radio' || !owns(input)) return;
+		document
+			.querySelectorAll<HTMLInputElement>(
+				`input[type="radio"][name="${CSS.escape(input.name)}"]`,
+			)
+			.forEach((radio) => store.values.set(radio.id, radio.checked));
+		store.rerender();
+	};
+
+	/** ⎋ Escape fecha o que foi registrado na última renderização */
+	const onKeyDown = (e: KeyboardEvent) => {
+		if (e.key !== 'Escape' || !store.escape.length) return;
+		store.escape.forEach((close) => close());
+	};
+
+	/** 🚪 Clique fora fecha menus abertos */
+	const onPointerDown = (e: PointerEvent) => {
+		const target = e.target as Node;
+		store.outside
+			.filter(({ within }) => !within()?.contains(target))
+			.forEach(({ close }) => close());
+	};
+
+	document.addEventListener('change', onChange);
+	document.addEventListener('keydown', onKeyDown);
+	document.addEventListener('pointerdown', onPointerDown);
+	return () => {
+		document.removeEventListener('change', onChange);
+		document.removeEventListener('keydown', onKeyDown);
+		document.removeEventListener('pointerdown', onPointerDown);
+	};
+}
+
+/** 📌 Monta `component(props)` (ou uma view/conteúdo) no contêiner */
+export function mount<P>(
+	container: Element,
+	component: ((props: P) => TDomView) | TDomContent,
+	props?: P,
+	overrides: TDomScopeOverrides = {},
+	parent?: IDomScope,
+): IDomMount<P> {
+	let current = props as P;
+	let nodes: Node[] = [];
+	let scheduled = false;
+
+	/** Mudanças de estado agrupadas em uma renderização por microtask */
+	const store = createStore(() => {
+		if (scheduled) return;
+		scheduled = true;
+		queueMicrotask(() => {
+			scheduled = false;
+			if (nodes.length) render();
+		});
+	});
+	const scope = rootScope(store, overrides, parent);
+
+	const render = () => {
+		const view =
+			typeof component === 'function' && props !== undefined ?
+				(component as (props: P) => TDomView)(current)
+			:	(component as TDomContent);
+		nodes = reconcile(container, nodes, renderNodes(view, scope));
+	};
+
+	const unlisten = listen(store, (node) =>
+		nodes.some((n) => n.contains(node)),
+	);
+	const unsubscribe = scope.location.subscribe(store.rerender);
+
+	render();
+
+	return {
+		get element() {
+			return nodes;
+		},
+		update: (next) => {
+			if (next !== undefined) current = next;
+			render();
+		},
+		destroy: () => {
+			unlisten();
+			unsubscribe();
+			nodes.forEach((node) => node.parentNode?.removeChild(node));
+			nodes = [];
+		},
+	};
+}
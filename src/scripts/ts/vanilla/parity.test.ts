@@ -0,0 +1,308 @@
+import { ComponentType, h, render } from 'preact';
+import { act } from 'preact/test-utils';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ButtonX } from '@comp/ButtonX/ButtonX';
+import { MenuX } from '@comp/MenuX/MenuX';
+import { Button, Menu, NavIcon } from '@comp/NavIcon/NavIcon';
+import { Breadcrumbs } from '@comp/Breadcrumbs/Breadcrumbs';
+import { HeaderBar } from '@comp/HeaderBar/HeaderBar';
+import { HeaderZone } from '@comp/HeaderZone/HeaderZone';
+import { ContentWrapper } from '@comp/ContentWrapper/ContentWrapper';
+import { FooterZone } from '@comp/FooterZone/FooterZone';
+import { PageZone } from '@comp/PageZone/PageZone';
+import * as dom from '.';
+
+/** Ids gerados marcados (`uid…`) e normalizados na comparação */
+vi.mock('@mod/jcemTS/src/ts/common/generic', async (original) => ({
+	...(await original<object>()),
+	guid: () => `uid${Math.random().toString(36).slice(2, 10)}`,
+}));
+
+const containers: HTMLElement[] = [];
+const container = () => {
+	const el = document.body.appendChild(document.createElement('div'));
+	containers.push(el);
+	return el;
+};
+
+afterEach(() => {
+	containers.splice(0).forEach((el) => {
+		render(null, el);
+		el.remove();
+	});
+});
+
+/** Markup comparável: ids gerados viram `uid`; `class=""` (Preact ao limpar a classe) equivale à ausência */
+const html = (el: HTMLElement) =>
+	el.innerHTML
+		.replace(/uid[a-z0-9]+/g, 'uid')
+		.replace(/ class=""/g, '');
+
+/** Aguarda a re-renderização vanilla (agendada em microtask) */
+const flush = () =>
+	new Promise<void>((resolve) => queueMicrotask(resolve));
+
+/** Montagem lado a lado: Preact (`preact`) × `mount()` vanilla (`dom`) */
+function mountBoth<P, Q extends object>(
+	preact: ComponentType<Q>,
+	vanilla: (props: P) => dom.TDomView,
+	props: P,
+	preactProps: Q,
+) {
+	const a = container();
+	const b = container();
+	act(() => {
+		render(h(preact, preactProps), a);
+	});
+	const view = dom.mount(b, vanilla, props);
+	return {
+		preact: a,
+		dom: b,
+		markup: () => [html(a), html(b)],
+		update: (next: P, nextPreact: Q) => {
+			act(() => {
+				render(h(preact, nextPreact), a);
+			});
+			view.update(next);
+		},
+	};
+}
+
+/** Mesmas props nos dois renderizadores */
+const same = <P, Q extends object>(
+	preact: ComponentType<Q>,
+	vanilla: (props: P) => dom.TDomView,
+	props: P & Q,
+) => mountBoth(preact, vanilla, props, props);
+
+const itens = [
+	Button({ caption: 'Início', href: '#/' }),
+	Button({ caption: 'Fixar', defaultPressed: false }),
+	Menu({ caption: 'Mais', itens: [Button({ caption: 'Sair' })] }),
+];
+
+describe('paridade Preact × vanilla — renderização inicial', () => {
+	it.each([
+		['simples', { caption: 'Olá' }],
+		['link', { caption: 'Docs', href: '/docs', target: '_blank' }],
+		['toggle', { caption: 'Fixar', defaultPressed: true }],
+		['badge', { caption: 'Avisos', badge: 3, badgeLabel: 'avisos' }],
+		['desabilitado', { caption: 'Off', disabled: true }],
+	])('ButtonX (%s)', (_, props) => {
+		const [preact, vanilla] = same(
+			ButtonX,
+			dom.ButtonX,
+			props,
+		).markup();
+		expect(vanilla).toBe(preact);
+	});
+
+	it('MenuX', () => {
+		const [preact, vanilla] = same(MenuX, dom.MenuX, {
+			caption: 'Conta',
+			itens: [
+				Button({ caption: 'Perfil' }),
+				Button({ caption: 'Sair' }),
+			],
+		}).markup();
+		expect(vanilla).toBe(preact);
+	});
+
+	it.each([
+		['vertical', { itens }],
+		['horizontal', { itens, orientation: 'horizontal' as const }],
+		[
+			'recolhível',
+			{ itens, collapsible: true, defaultExpanded: false },
+		],
+	])('NavIcon (%s)', (_, props) => {
+		const [preact, vanilla] = same(
+			NavIcon,
+			dom.NavIcon,
+			props,
+		).markup();
+		expect(vanilla).toBe(preact);
+	});
+
+	it('Breadcrumbs', () => {
+		const [preact, vanilla] = same(Breadcrumbs, dom.Breadcrumbs, {
+			crumbs: [
+				{ label: 'Início', href: '#/' },
+				{ label: 'Vendas', href: '#/vendas' },
+				{ label: 'Dashboard' },
+			],
+		}).markup();
+		expect(vanilla).toBe(preact);
+	});
+
+	it('HeaderBar', () => {
+		const [preact, vanilla] = same(HeaderBar, dom.HeaderBar, {
+			title: 'App',
+			subtitle: 'Painel',
+			left: [Button({ caption: 'Voltar' })],
+			right: [
+				Menu({
+					caption: 'Conta',
+					itens: [Button({ caption: 'Sair' })],
+				}),
+			],
+		}).markup();
+		// Dobra medida só no Preact: o vanilla fica no modo CSS
+		expect(vanilla).toBe(
+			preact.replace(
+				/data-overflow="measure"/g,
+				'data-overflow="css"',
+			),
+		);
+	});
+
+	it('HeaderZone, ContentWrapper e FooterZone', () => {
+		const props = { children: 'Conteúdo' };
+		for (const [preact, vanilla] of [
+			same(HeaderZone, dom.HeaderZone, props).markup(),
+			same(ContentWrapper, dom.ContentWrapper, props).markup(),
+			same(FooterZone, dom.FooterZone, props).markup(),
+		]) {
+			expect(vanilla).toBe(preact);
+		}
+	});
+
+	it('PageZone com zonas e navegações', () => {
+		const zone = {
+			left: { itens },
+			right: {
+				itens: [Button({ caption: 'Avisos' })],
+				expansion: 'overlay' as const,
+			},
+			drawerBelow: 'md' as const,
+		};
+		const [preact, vanilla] = mountBoth(
+			PageZone,
+			dom.PageZone,
+			{
+				...zone,
+				header: { children: 'Cabeçalho' },
+				content: { children: 'Conteúdo' },
+				footer: { children: 'Rodapé' },
+			},
+			{
+				...zone,
+				children: [
+					h(HeaderZone, {}, 'Cabeçalho'),
+					h(ContentWrapper, {}, 'Conteúdo'),
+					h(FooterZone, {}, 'Rodapé'),
+				],
+			},
+		).markup();
+		expect(vanilla).toBe(preact);
+	});
+
+	it('PageZone: botões da gaveta apenas no primeiro HeaderBar', () => {
+		const zone = { left: { itens }, drawerBelow: 'md' as const };
+		const [preact, vanilla] = mountBoth(
+			PageZone,
+			dom.PageZone,
+			{
+				...zone,
+				header: {
+					children: [
+						dom.HeaderBar({ title: 'App' }),
+						dom.HeaderBar({ title: 'Seção' }),
+					],
+				},
+				content: { children: 'Conteúdo' },
+			},
+			{
+				...zone,
+				children: [
+					h(
+						HeaderZone,
+						{},
+						h(HeaderBar, { title: 'App' }),
+						h(HeaderBar, { title: 'Seção' }),
+					),
+					h(ContentWrapper, {}, 'Conteúdo'),
+				],
+			},
+		).markup();
+		expect(vanilla).toBe(
+			preact.replace(
+				/data-overflow="measure"/g,
+				'data-overflow="css"',
+			),
+		);
+		expect(vanilla.match(/<header class="navbar/g)).toHaveLength(2);
+		expect(vanilla.match(/data-drawer-toggle=/g)).toHaveLength(1);
+	});
+});
+
+describe('paridade Preact × vanilla — após update() e mudança de estado', () => {
+	it('NavIcon após update() com novos itens e orientação', () => {
+		const both = same(NavIcon, dom.NavIcon, { itens });
+		const next = {
+			itens: [...itens, Button({ caption: 'Ajuda', badge: 1 })],
+			orientation: 'horizontal' as const,
+		};
+		both.update(next, next);
+
+		const [preact, vanilla] = both.markup();
+		expect(vanilla).toBe(preact);
+		expect(vanilla).toContain('Ajuda');
+	});
+
+	it('ButtonX toggle após clique', async () => {
+		const both = same(ButtonX, dom.ButtonX, {
+			caption: 'Fixar',
+			defaultPressed: false,
+		});
+		for (const root of [both.preact, both.dom]) {
+			act(() => root.querySelector('label')!.click());
+		}
+		await flush();
+
+		const [preact, vanilla] = both.markup();
+		expect(vanilla).toBe(preact);
+		expect(vanilla).toContain('aria-pressed="true"');
+	});
+
+	it('NavIcon após navegação por teclado (roving tabindex)', () => {
+		const both = same(NavIcon, dom.NavIcon, { itens });
+		for (const root of [both.preact, both.dom]) {
+			const first =
+				root.querySelector<HTMLElement>('[tabindex="0"]')!;
+			first.focus();
+			act(() => {
+				first.dispatchEvent(
+					new KeyboardEvent('keydown', {
+						key: 'ArrowDown',
+						bubbles: true,
+					}),
+				);
+			});
+		}
+
+		const [preact, vanilla] = both.markup();
+		expect(vanilla).toBe(preact);
+		expect(both.dom.querySelector('ul > li:nth-child(2) label')).toBe(
+			document.activeElement,
+		);
+	});
+
+	it('NavIcon recolhível após alternar a expansão', async () => {
+		const both = same(NavIcon, dom.NavIcon, {
+			itens,
+			collapsible: true,
+			defaultExpanded: true,
+		});
+		for (const root of [both.preact, both.dom]) {
+			const input = root.querySelector<HTMLInputElement>(
+				'input[type="checkbox"]',
+			)!;
+			act(() => input.click());
+		}
+		await flush();
+
+		const [preact, vanilla] = both.markup();
+		expect(vanilla).toBe(preact);
+	});
+});
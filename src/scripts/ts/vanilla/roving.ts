@@ -0,0 +1,50 @@
+/**
+ * roving — Roving tabindex do renderizador vanilla (como `useRovingFocus`).
+ *
+ * @description
+ * O estado do grupo (item ativo e type-ahead) fica na montagem, preservado
+ * entre renderizações sem re-renderizar. As paradas de Tab são aplicadas à
+ * árvore recém-renderizada e `morph` as transfere aos nós montados; foco e
+ * teclas seguem o núcleo compartilhado (`rovingFocus`).
+ *
+ * @see {@link useRovingFocus}
+ */
+import {
+	IRovingState,
+	rovingFocusIn,
+	rovingKey,
+	rovingState,
+	tabStops,
+} from '../rovingFocus';
+import type { IDomScope } from './scope';
+
+/** ⌨️ Listeners do contêiner (`props`) e aplicação das paradas de Tab (`apply`) */
+export function roving(
+	scope: IDomScope,
+	key: string,
+	items: (container: Element) => HTMLElement[],
+	orientation: 'vertical' | 'horizontal',
+) {
+	const { values } = scope.store;
+	const id = `${key}-roving`;
+	if (!values.has(id)) values.set(id, rovingState());
+	const state = values.get(id) as IRovingState;
+
+	return {
+		props: {
+			onKeyDown: (e: KeyboardEvent) =>
+				rovingKey(
+					e,
+					items(e.currentTarget as Element),
+					orientation,
+					state,
+				),
+			onFocusIn: (e: FocusEvent) =>
+				rovingFocusIn(e, items(e.currentTarget as Element), state),
+		},
+		apply: <E extends Element>(container: E) => {
+			tabStops(items(container), state);
+			return container;
+		},
+	};
+}
@@ -0,0 +1,205 @@
+/**
+ * scope — Escopo e estado de uma montagem vanilla.
+ *
+ * @description
+ * Equivalente sem framework do `PageZoneScope`: namespace (`ns`), profundidade,
+ * provider de ícones, origem de localização e logger, herdados pelos
+ * descendentes de cada `PageZone`. Acrescenta o que o Preact provê por hooks:
+ * - `uid(prefix)`: id estável entre `update()` (ordem de renderização);
+ * - `state(key, initial)`: estado local que re-renderiza a montagem.
+ *
+ * @see {@link PageZoneScope}
+ */
+import Logger from '@mod/jcemTS/src/ts/utils/logger';
+import { guid } from '@mod/jcemTS/src/ts/common/generic';
+import { historyLocation, ILocationSource } from '../location';
+import type {
+	TDrawerBreakpoint,
+	TNavExpansion,
+} from '@comp/PageZone/PageZoneDrawer';
+import { BUILTIN_GLYPHS } from '@comp/IconProvider/IconGlyph';
+import { IDomIconProvider, textIcons } from './icons';
+
+/** Densidade visual herdável */
+export type TDomDensity = 'normal' | 'compact';
+
+/** Contrato mínimo de logger aceito pelo escopo */
+export interface IDomLogger {
+	info: (...args: any[]) => void;
+	warn: (...args: any[]) => void;
+	error: (...args: any[]) => void;
+}
+
+/** Navegação lateral publicada pelo PageZone (ver `PageZoneNav`) */
+export interface IDomNavSide {
+	navId: string;
+	toggleId: string;
+	expanded: boolean;
+	setExpanded: (expanded: boolean) => void;
+	expansion: TNavExpansion;
+	collapsible: boolean;
+	drawerId: string;
+	drawerOpen: boolean;
+	setDrawerOpen: (open: boolean) => void;
+}
+
+/** Navegações laterais do PageZone mais próximo */
+export interface IDomZoneNav {
+	left?: IDomNavSide;
+	right?: IDomNavSide;
+	drawer?: {
+		below: TDrawerBreakpoint;
+		owner: { current: string | null };
+	};
+}
+
+/** Estado da montagem (ids e estado local, preservados entre renderizações) */
+export interface IDomStore {
+	ids: Map<string, string>;
+	values: Map<string, unknown>;
+	counter: Map<string, number>;
+	escape: (() => void)[];
+	outside: { within: () => Element | null; close: () => void }[];
+	rerender: () => void;
+}
+
+/** Escopo resolvido */
+export interface IDomScope {
+	escopo: string;
+	path: string[];
+	ns: string;
+	depth: number;
+	theme?: string;
+	icons: IDomIconProvider;
+	location: ILocationSource;
+	logger: IDomLogger;
+	density: TDomDensity;
+	navs: IDomZoneNav;
+	store: IDomStore;
+}
+
+/** Overrides declaráveis por PageZone (ou na montagem) */
+export type TDomScopeOverrides = Partial<
+	Pick<
+		IDomScope,
+		'theme' | 'icons' | 'location' | 'logger' | 'density'
+	>
+>;
+
+/** 🌱 Escopo raiz de uma montagem (ou herdado de `parent`, com estado próprio) */
+export function rootScope(
+	store: IDomStore,
+	overrides: TDomScopeOverrides = {},
+	parent?: IDomScope,
+): IDomScope {
+	return {
+		...(parent ?? {
+			escopo: '',
+			path: [],
+			ns: '',
+			depth: -1,
+			icons: textIcons(BUILTIN_GLYPHS, { name: 'builtin' }),
+			location: historyLocation(),
+			logger: Logger,
+			density: 'normal',
+			navs: {},
+		}),
+		...defined(overrides),
+		store,
+	};
+}
+
+/** 🧬 Resolve o escopo filho a partir do ancestral */
+export function resolveScope(
+	parent: IDomScope,
+	escopo: string,
+	overrides: TDomScopeOverrides = {},
+): IDomScope {
+	const path = [...parent.path, escopo];
+	return {
+		...parent,
+		...defined(overrides),
+		escopo,
+		path,
+		ns: path.join('__'),
+		depth: parent.depth + 1,
+	};
+}
+
+/** Remove chaves indefinidas (não sobrescrevem a herança) */
+const defined = <T extends object>(overrides: T) =>
+	Object.fromEntries(
+		Object.entries(overrides).filter(([, v]) => v !== undefined),
+	) as Partial<T>;
+
+/** 🆔 Id com namespace do escopo */
+export const scopedId = (scope: IDomScope, id: string) =>
+	scope.ns ? `${scope.ns}-${id}` : id;
+
+/** 🆔 Id gerado uma vez por posição de renderização (estável entre updates) */
+export function uid(scope: IDomScope, prefix: string, size = 8) {
+	const { ids, counter } = scope.store;
+	const n = counter.get(prefix) ?? 0;
+	counter.set(prefix, n + 1);
+	const key = `${prefix}#${n}`;
+	if (!ids.has(key))
+		ids.set(key, scopedId(scope, `${prefix}-${guid(size)}`));
+	return ids.get(key)!;
+}
+
+/** 🧠 Estado local (chaveado por id) que re-renderiza a montagem ao mudar */
+export function state<T>(
+	scope: IDomScope,
+	key: string,
+	initial: T,
+): [T, (next: T) => void] {
+	const { values, rerender } = scope.store;
+	if (!values.has(key)) values.set(key, initial);
+	return [
+		values.get(key) as T,
+		(next) => {
+			if (values.get(key) === next) return;
+			values.set(key, next);
+			rerender();
+		},
+	];
+}
+
+/** ⏮️ Valor da renderização anterior (`initial` na primeira) */
+export function previous<T>(scope: IDomScope, key: string, value: T) {
+	const { values } = scope.store;
+	const last = (values.has(key) ? values.get(key) : value) as T;
+	values.set(key, value);
+	return last;
+}
+
+/** 🔘 Estado controlado (`value`) ou não (`initial`), como `useControllable` */
+export function controllable<T>(
+	scope: IDomScope,
+	key: string,
+	value: T | undefined,
+	initial: T,
+	onChange?: (next: T) => void,
+): [T, (next: T) => void] {
+	const [own, setOwn] = state(scope, key, initial);
+	const controlled = value !== undefined;
+	const current = controlled ? value : own;
+	return [
+		current,
+		(next) => {
+			if (!controlled) setOwn(next);
+			if (next !== current) onChange?.(next);
+		},
+	];
+}
+
+/** ⎋ Fecha com Escape (registrado a cada renderização, enquanto aberto) */
+export const onEscape = (scope: IDomScope, close: () => void) =>
+	scope.store.escape.push(close);
+
+/** 🚪 Fecha com clique fora de `within` (registrado enquanto aberto) */
+export const onOutside = (
+	scope: IDomScope,
+	within: () => Element | null,
+	close: () => void,
+) => scope.store.outside.push({ within, close });
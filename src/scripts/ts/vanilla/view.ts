@@ -0,0 +1,28 @@
+/**
+ * view — Renderização adiada até o escopo (PageZone) ser conhecido.
+ *
+ * @description
+ * Cada componente vanilla recebe as props e devolve uma `TDomView`, chamada
+ * pelo ancestral com o escopo resolvido — o equivalente ao contexto do
+ * `PageZoneScope` nos componentes. Conteúdo livre aceita nós DOM, texto ou
+ * views, em qualquer aninhamento de listas.
+ */
+import type { TDomChild } from './dom';
+import type { IDomScope } from './scope';
+
+/** Renderização no escopo */
+export type TDomView = (scope: IDomScope) => TDomChild;
+
+/** Conteúdo livre: nós, texto, views ou listas deles */
+export type TDomContent = TDomChild | TDomView | TDomContent[];
+
+/** 🧩 Resolve o conteúdo no escopo */
+export function renderContent(
+	content: TDomContent,
+	scope: IDomScope,
+): TDomChild {
+	if (Array.isArray(content)) {
+		return content.map((c) => renderContent(c, scope));
+	}
+	return typeof content === 'function' ? content(scope) : content;
+}
@@ -9,14 +9,24 @@ import { FooterZone } from '../components/FooterZone/FooterZone';
 import { HeaderBar } from '../components/HeaderBar/HeaderBar';
 import { HeaderZone } from '../components/HeaderZone/HeaderZone';
 import { PageZone } from '../components/PageZone/PageZone';
+import { NavToggle } from '../components/NavToggle/NavToggle';
+import { fontAwesomeIcons } from '../components/IconProvider/FontAwesomeIcons';
+import { hashLocation } from '../ts/location';
+
+/** Demo com rotas `#/…`: a localização vem do hash */
+const demoLocation = hashLocation();
 
 export default function Master() {
 	return (
 		<PageZone
+			icons={fontAwesomeIcons()}
+			location={demoLocation}
 			variant="border"
 			shadow="lg"
 			compact
+			drawerBelow="md"
 			left={{
+				collapsible: true,
 				itens: [
 					{ label: 'Home', icon: 'house', kind: 'button' },
 					{
@@ -31,6 +41,7 @@ export default function Master() {
 				],
 			}}
 			right={{
+				expansion: 'overlay',
 				itens: [
 					{ label: 'Home', icon: 'house', kind: 'button' },
 					{
@@ -47,7 +58,18 @@ export default function Master() {
 		>
 			{/* HeaderZone: primeiro filho */}
 			<HeaderZone>
-				<HeaderBar />
+				<HeaderBar
+					left={[
+						<NavToggle side="left" />,
+						{
+							crumbs: [
+								{ label: 'Início', icon: 'fas house', href: '#/' },
+								{ label: 'Vendas', href: '#/vendas' },
+								{ label: 'Dashboard' },
+							],
+						},
+					]}
+				/>
 			</HeaderZone>
 
 			{/* ContentWrapper: terceiro filho obrigatório */}
@@ -0,0 +1,19 @@
+/**
+ * Setup dos testes (vitest) — matchers de DOM do `@testing-library/jest-dom`
+ * e `matchMedia` (ausente no jsdom; consultas nunca casam).
+ */
+import '@testing-library/jest-dom/vitest';
+
+if (typeof window !== 'undefined' && !window.matchMedia) {
+	window.matchMedia = (query: string) =>
+		({
+			matches: false,
+			media: query,
+			onchange: null,
+			addEventListener: () => {},
+			removeEventListener: () => {},
+			addListener: () => {},
+			removeListener: () => {},
+			dispatchEvent: () => false,
+		}) as MediaQueryList;
+}
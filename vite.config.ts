@@ -1,4 +1,4 @@
-import { defineConfig } from 'vitest/config';
+import { configDefaults, defineConfig } from 'vitest/config';
 import preact from '@preact/preset-vite';
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -142,6 +142,7 @@ export default defineConfig(({ mode }) => ({
 		alias: {
 			'@mod': path.resolve(__dirname, 'modules'),
 			'@ext': path.resolve(__dirname, 'src/scripts/components'),
+			'@comp': path.resolve(__dirname, 'src/scripts/components'),
 			'@scss': path.resolve(__dirname, 'src/scss'),
 			'@css': path.resolve(__dirname, 'src/assets/css'),
 			'@tsx': path.resolve(__dirname, 'src/scripts/tsx'),
@@ -156,6 +157,7 @@ export default defineConfig(({ mode }) => ({
 		environment: 'jsdom',
 		setupFiles: './test/.setup.ts',
 		include: ['test/**/*.{ts,tsx}', 'src/**/*.test.{ts,tsx}'],
+		exclude: [...configDefaults.exclude, 'test/.setup.ts'],
 		coverage: {
 			provider: 'v8',
 			reporter: ['text', 'json', 'html'],